@@ -0,0 +1,167 @@
+// Script for the Now Playing webview view.
+// Message shapes are defined in src/ui/nowPlaying.ts (NowPlayingViewMessage
+// and NowPlayingWebviewMessage); keep both sides in sync.
+
+(function () {
+	const vscode = acquireVsCodeApi();
+
+	const $ = (id) => document.getElementById(id);
+	const elements = {
+		idle: $("idle"),
+		player: $("player"),
+		art: $("art"),
+		title: $("title"),
+		artists: $("artists"),
+		album: $("album"),
+		like: $("like"),
+		elapsed: $("elapsed"),
+		position: $("position"),
+		duration: $("duration"),
+		shuffle: $("shuffle"),
+		previous: $("previous"),
+		playPause: $("playPause"),
+		next: $("next"),
+		repeat: $("repeat"),
+		volumeRow: $("volumeRow"),
+		volume: $("volume"),
+		volumeValue: $("volumeValue"),
+		device: $("device"),
+	};
+
+	const REPEAT_TITLES = {
+		off: "Repeat: Off",
+		context: "Repeat: Playlist/Album",
+		track: "Repeat: Track",
+	};
+
+	let state = null;
+	let receivedAt = 0; // When `state` arrived, to interpolate the progress
+	let seeking = false; // Don't move the slider while the user drags it
+
+	function formatDuration(ms) {
+		const totalSeconds = Math.floor(ms / 1000);
+		const minutes = Math.floor(totalSeconds / 60);
+		const seconds = String(totalSeconds % 60).padStart(2, "0");
+		return `${minutes}:${seconds}`;
+	}
+
+	function currentProgress() {
+		if (!state) {
+			return 0;
+		}
+		const elapsed = state.isPlaying ? Date.now() - receivedAt : 0;
+		return Math.min(state.progressMs + elapsed, state.durationMs);
+	}
+
+	function renderProgress() {
+		if (!state || seeking) {
+			return;
+		}
+		const progress = currentProgress();
+		elements.position.value = String(progress);
+		elements.elapsed.textContent = formatDuration(progress);
+	}
+
+	function render() {
+		elements.idle.hidden = state !== null;
+		elements.player.hidden = state === null;
+		if (!state) {
+			return;
+		}
+
+		if (state.artUrl) {
+			elements.art.src = state.artUrl;
+			elements.art.hidden = false;
+		} else {
+			elements.art.hidden = true;
+		}
+		elements.art.alt = state.album ? `Cover of ${state.album}` : "";
+		elements.title.textContent = state.title;
+		elements.title.title = state.title;
+		elements.artists.textContent = state.artists;
+		elements.album.textContent = state.album;
+
+		elements.like.disabled = state.liked === undefined;
+		elements.like.setAttribute("aria-pressed", String(state.liked === true));
+		elements.like.textContent = state.liked ? "♥" : "♡";
+		elements.like.title = state.liked
+			? "Remove from Liked Songs"
+			: "Save to Liked Songs";
+
+		elements.position.max = String(state.durationMs);
+		elements.duration.textContent = formatDuration(state.durationMs);
+		renderProgress();
+
+		elements.playPause.textContent = state.isPlaying ? "⏸" : "▶";
+		elements.playPause.title = state.isPlaying ? "Pause" : "Play";
+
+		elements.shuffle.setAttribute("aria-pressed", String(state.shuffle));
+		elements.shuffle.title = state.shuffle ? "Shuffle: On" : "Shuffle: Off";
+		elements.repeat.setAttribute(
+			"aria-pressed",
+			String(state.repeat !== "off"),
+		);
+		elements.repeat.textContent = state.repeat === "track" ? "\u{1F502}" : "↻";
+		elements.repeat.title = REPEAT_TITLES[state.repeat] || "Repeat";
+
+		elements.volumeRow.hidden = state.volume === null;
+		if (state.volume !== null && document.activeElement !== elements.volume) {
+			elements.volume.value = String(state.volume);
+			elements.volumeValue.textContent = `${state.volume}%`;
+		}
+
+		elements.device.textContent = `Playing on ${state.deviceName}`;
+	}
+
+	function post(message) {
+		vscode.postMessage(message);
+	}
+
+	const buttons = [
+		[elements.playPause, "playPause"],
+		[elements.previous, "previous"],
+		[elements.next, "next"],
+		[elements.shuffle, "toggleShuffle"],
+		[elements.repeat, "cycleRepeat"],
+		[elements.like, "toggleLike"],
+	];
+	for (const [button, type] of buttons) {
+		button.addEventListener("click", () => post({ type }));
+	}
+
+	elements.position.addEventListener("input", () => {
+		seeking = true;
+		elements.elapsed.textContent = formatDuration(
+			Number(elements.position.value),
+		);
+	});
+	elements.position.addEventListener("change", () => {
+		seeking = false;
+		const positionMs = Number(elements.position.value);
+		if (state) {
+			// Assume the seek works, the next poll corrects us if it didn't
+			state.progressMs = positionMs;
+			receivedAt = Date.now();
+		}
+		post({ type: "seek", positionMs });
+	});
+
+	elements.volume.addEventListener("input", () => {
+		elements.volumeValue.textContent = `${elements.volume.value}%`;
+	});
+	elements.volume.addEventListener("change", () => {
+		post({ type: "setVolume", volume: Number(elements.volume.value) });
+	});
+
+	window.addEventListener("message", (event) => {
+		const message = event.data;
+		if (message.type === "state") {
+			state = message.state;
+			receivedAt = Date.now();
+			render();
+		}
+	});
+
+	setInterval(renderProgress, 500);
+	post({ type: "ready" });
+})();
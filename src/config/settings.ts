@@ -1,4 +1,35 @@
 // Configuration settings for the Xilie extension
+import * as vscode from "vscode";
+
+/**
+ * Authorization scopes defined by the Spotify Web API.
+ */
+export type SpotifyScope =
+	| "ugc-image-upload"
+	| "user-read-playback-state"
+	| "user-modify-playback-state"
+	| "user-read-currently-playing"
+	| "app-remote-control"
+	| "streaming"
+	| "playlist-read-private"
+	| "playlist-read-collaborative"
+	| "playlist-modify-private"
+	| "playlist-modify-public"
+	| "user-follow-modify"
+	| "user-follow-read"
+	| "user-read-playback-position"
+	| "user-top-read"
+	| "user-read-recently-played"
+	| "user-library-modify"
+	| "user-library-read"
+	| "user-read-email"
+	| "user-read-private";
+
+/**
+ * Client ID of Xilie's shared Spotify app registration.
+ */
+export const DEFAULT_CLIENT_ID = "b61c64d6e5574e379e31dce5002d845c";
+
 /**
  * Application configuration settings.
  *
@@ -39,19 +70,47 @@ export const SETTINGS = {
 		REDIRECT_URI: process.env.REDIRECT_URI,
 		/**
 		 * Scopes for Spotify API.
-		 * These are the permissions that the application is requesting from the user.
-		 * They should be set in the environment variable `SPOTIFY_SCOPES`.
+		 * These are the permissions requested when the user signs in, and the
+		 * single source of truth for what Xilie asks for up front. API methods
+		 * declare the scopes they need; anything missing from a session is
+		 * requested on demand.
 		 */
 		SCOPES: [
 			"user-read-private",
 			"user-read-email",
-			"user-top-read",
 			"user-read-playback-state",
 			"user-modify-playback-state",
 			"user-read-currently-playing",
 			"playlist-read-private",
 			"playlist-read-collaborative",
-			"streaming",
-		],
+			"playlist-modify-public",
+			"playlist-modify-private",
+			"user-library-read",
+			"user-library-modify",
+			"user-follow-read",
+			"user-top-read",
+			"user-read-recently-played",
+		] as readonly SpotifyScope[],
 	},
 };
+
+/**
+ * Resolves the Spotify app registration to authenticate against.
+ * The `xilie.clientId`/`xilie.redirectUri` settings (which can be set per
+ * workspace) take precedence over the `CLIENT_ID`/`REDIRECT_URI` environment
+ * variables, which take precedence over Xilie's shared app.
+ * @returns The client ID, and the redirect URI if one was configured.
+ */
+export function getSpotifyClient(): { clientId: string; redirectUri?: string } {
+	const config = vscode.workspace.getConfiguration("xilie");
+	const clientId =
+		config.get<string>("clientId", "").trim() ||
+		SETTINGS.vars.CLIENT_ID ||
+		DEFAULT_CLIENT_ID;
+	const redirectUri =
+		config.get<string>("redirectUri", "").trim() ||
+		SETTINGS.vars.REDIRECT_URI ||
+		undefined;
+
+	return { clientId, redirectUri };
+}
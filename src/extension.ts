@@ -1,15 +1,68 @@
 import * as vscode from "vscode";
 import { SpotifyAuth } from "./spotify/auth";
+import { SpotifyAuthenticationProvider } from "./spotify/authProvider";
 import { SpotifyApi } from "./spotify/api";
+import { ResponseCache } from "./spotify/cache";
+import { PlayerState } from "./spotify/playerState";
+import { LikedTracks } from "./spotify/likedTracks";
+import { RequestPriority, RequestScheduler } from "./spotify/scheduler";
+import {
+	InsufficientScopeError,
+	NetworkError,
+	NoActiveDeviceError,
+	NotFoundError,
+	PremiumRequiredError,
+	RateLimitedError,
+	UnauthorizedError,
+	VolumeControlDisallowedError,
+} from "./spotify/errors";
 import { SpotifySidebarProvider } from "./ui/sidebar";
-import { SpotifyStatusBar } from "./ui/statusbar";
+import {
+	SpotifyDragAndDropController,
+	TrackDropHandler,
+} from "./ui/dragAndDrop";
+import { SpotifyTreeItem } from "./types";
+import { REPEAT_LABELS, SpotifyStatusBar } from "./ui/statusbar";
+import {
+	NowPlayingViewProvider,
+	PlaybackCommandOptions,
+} from "./ui/nowPlaying";
 import { logger } from "./utils/logger";
+import { SETTINGS } from "./config/settings";
+import { formatDuration, parseDuration } from "./utils/formatter";
+import {
+	SpotifyAlbum,
+	SpotifyArtist,
+	SpotifyPlaybackState,
+	SpotifyPlaylist,
+	SpotifyRepeatState,
+	SpotifyTrack,
+} from "./types/spotify";
+
+const ADD_TO_QUEUE_BUTTON: vscode.QuickInputButton = {
+	iconPath: new vscode.ThemeIcon("list-ordered"),
+	tooltip: "Add to Queue",
+};
+
+// How far the seek forward/backward commands jump
+const SEEK_STEP_MS = 10 * 1000;
+
+// Volume to restore when unmuting
+let volumeBeforeMute: number | undefined;
 
 // Global instances (initialized in activate)
 let spotifyAuth: SpotifyAuth;
+let authProvider: SpotifyAuthenticationProvider;
 let spotifyApi: SpotifyApi;
+let backgroundApi: SpotifyApi;
+let playerState: PlayerState;
+let likedTracks: LikedTracks;
 let statusBar: SpotifyStatusBar;
+let nowPlaying: NowPlayingViewProvider;
+let responseCache: ResponseCache;
 let sidebarViews: { [key: string]: SpotifySidebarProvider };
+const sidebarTreeViews: { [key: string]: vscode.TreeView<SpotifyTreeItem> } =
+	{};
 
 export function activate(context: vscode.ExtensionContext) {
 	logger.info("Xilie is now active!");
@@ -20,9 +73,20 @@ export function activate(context: vscode.ExtensionContext) {
 	]);
 
 	spotifyAuth = new SpotifyAuth(context.secrets, redirectUris);
-	spotifyApi = new SpotifyApi(spotifyAuth);
+	authProvider = new SpotifyAuthenticationProvider(spotifyAuth);
+	// Cached responses survive restarts so the sidebar isn't empty on startup
+	responseCache = new ResponseCache(context.globalStorageUri);
+	// Shared by every client, so all of them respect Spotify's rate limits
+	const requestScheduler = new RequestScheduler();
+	spotifyApi = new SpotifyApi(spotifyAuth, responseCache, requestScheduler);
+
+	// Polling and tree refreshes yield to user commands in the shared request queue
+	backgroundApi = spotifyApi.withPriority(RequestPriority.Background);
+	playerState = new PlayerState(spotifyApi, spotifyAuth);
+	likedTracks = new LikedTracks(spotifyApi);
 
-	statusBar = new SpotifyStatusBar(spotifyApi);
+	statusBar = new SpotifyStatusBar(backgroundApi);
+	nowPlaying = new NowPlayingViewProvider(context.extensionUri, likedTracks);
 
 	// Check if status bar should be shown based on settings
 	const initialConfig = vscode.workspace.getConfiguration("xilie");
@@ -30,20 +94,97 @@ export function activate(context: vscode.ExtensionContext) {
 	if (!showStatusBar) {
 		statusBar.hide();
 	}
+	statusBar.setLikeButtonEnabled(
+		initialConfig.get<boolean>("showLikeButton", true),
+	);
 
 	sidebarViews = {
-		playlists: new SpotifySidebarProvider(spotifyApi, "xiliePlaylists"),
-		artists: new SpotifySidebarProvider(spotifyApi, "xilieArtists"),
-		recents: new SpotifySidebarProvider(spotifyApi, "xilieRecents"),
-		devices: new SpotifySidebarProvider(spotifyApi, "xilieDevices"),
+		playlists: new SpotifySidebarProvider(
+			backgroundApi,
+			"xiliePlaylists",
+			likedTracks,
+		),
+		artists: new SpotifySidebarProvider(
+			backgroundApi,
+			"xilieArtists",
+			likedTracks,
+		),
+		recents: new SpotifySidebarProvider(
+			backgroundApi,
+			"xilieRecents",
+			likedTracks,
+		),
+		devices: new SpotifySidebarProvider(backgroundApi, "xilieDevices"),
+		queue: new SpotifySidebarProvider(backgroundApi, "xilieQueue", likedTracks),
+		likedSongs: new SpotifySidebarProvider(
+			backgroundApi,
+			"xilieLikedSongs",
+			likedTracks,
+		),
+		savedAlbums: new SpotifySidebarProvider(
+			backgroundApi,
+			"xilieSavedAlbums",
+			likedTracks,
+		),
 	};
 
+	context.subscriptions.push(
+		authProvider,
+		requestScheduler,
+		responseCache,
+		playerState,
+		likedTracks,
+		playerState.onDidChangeState((state) => {
+			updatePlaybackStatusBar(state);
+			nowPlaying.update(state);
+		}),
+		// What's up next and what was recently played only change with the track
+		playerState.onDidChangeTrack(() => {
+			sidebarViews["queue"].refresh();
+			spotifyApi.invalidateCache("/me/player/recently-played");
+			sidebarViews["recents"].refresh();
+		}),
+		playerState.onDidChangeDevice(() => sidebarViews["devices"].refresh()),
+		likedTracks.onDidChange(() => {
+			updateLikeButton(playerState.current);
+			sidebarViews["likedSongs"].refresh();
+		}),
+		// Data restored from the last session was outdated, show the current one
+		responseCache.onDidRevalidate(() => updateUIStatus()),
+		// Don't keep a signed-out account's data around
+		spotifyAuth.onDidChangeAccounts(async () => {
+			const accounts = await spotifyAuth.getAccounts();
+			responseCache.retainAccounts(accounts.map((account) => account.id));
+		}),
+		// Sign-in state can change from the Accounts menu or other extensions
+		vscode.authentication.onDidChangeSessions((e) => {
+			if (e.provider.id === SpotifyAuthenticationProvider.id) {
+				updateUIStatus();
+				playerState.requestUpdate();
+			}
+		}),
+		// Reload everything for the selected account
+		spotifyAuth.onDidChangeActiveAccount((account) => {
+			statusBar.setProfile(account?.label);
+			likedTracks.clear();
+			updateUIStatus();
+			playerState.requestUpdate();
+		}),
+	);
+	spotifyAuth
+		.getActiveAccount()
+		.then((account) => statusBar.setProfile(account?.label));
+
 	// Commands registry
 	context.subscriptions.push(
 		// Authentication command
 		vscode.commands.registerCommand("xilie.authenticate", async () => {
 			try {
-				await spotifyAuth.authenticate();
+				await vscode.authentication.getSession(
+					SpotifyAuthenticationProvider.id,
+					SETTINGS.vars.SCOPES,
+					{ createIfNone: true },
+				);
 
 				const authTimeout = setTimeout(async () => {
 					if (!(await spotifyAuth.isAuthenticated())) {
@@ -102,7 +243,11 @@ export function activate(context: vscode.ExtensionContext) {
 		// Sign out command
 		vscode.commands.registerCommand("xilie.signOut", async () => {
 			try {
-				await spotifyAuth.clearTokens();
+				// Only the active account is signed out, others stay available
+				const account = await spotifyAuth.getActiveAccount();
+				if (account) {
+					await authProvider.removeSession(account.id);
+				}
 				updateUIStatus();
 			} catch (error: any) {
 				vscode.window.showErrorMessage(
@@ -114,62 +259,93 @@ export function activate(context: vscode.ExtensionContext) {
 	);
 
 	context.subscriptions.push(
-		// Play/pause command
-		vscode.commands.registerCommand("xilie.playPause", async () => {
+		// Pick which signed-in account Xilie controls, or add another one
+		vscode.commands.registerCommand("xilie.switchAccount", async () => {
 			try {
-				const playbackState = await spotifyApi.getPlaybackState();
-				logger.debug(`Current playback state: ${playbackState}`);
-				if (playbackState && playbackState.is_playing) {
-					if (playbackState.device?.id) {
-						await spotifyApi.pausePlayback(playbackState.device.id);
-					} else {
-						await spotifyApi.pausePlayback();
+				const accounts = await spotifyAuth.getAccounts();
+				const active = await spotifyAuth.getActiveAccount();
+
+				const items: (vscode.QuickPickItem & { accountId?: string })[] =
+					accounts.map((account) => ({
+						label: `${account.id === active?.id ? "$(check)" : "$(account)"} ${account.label}`,
+						description: account.id === active?.id ? "Active" : undefined,
+						detail: `Spotify user ${account.id}`,
+						accountId: account.id,
+					}));
+				items.push({ label: "$(add) Add Another Account..." });
+
+				const selected = await vscode.window.showQuickPick(items, {
+					placeHolder: "Select the Spotify account to use",
+				});
+				if (!selected) {
+					return;
+				}
+
+				if (selected.accountId) {
+					if (selected.accountId !== active?.id) {
+						await spotifyAuth.setActiveAccount(selected.accountId);
 					}
-					vscode.window.showInformationMessage("Spotify playback paused.");
 				} else {
-					await spotifyApi.startPlayback();
-					vscode.window.showInformationMessage(
-						"Spotify playback started/resumed.",
-					);
+					// Always start a fresh sign-in, even if a session already exists
+					await authProvider.createSession(SETTINGS.vars.SCOPES);
 				}
-				updatePlaybackStatusBar();
 			} catch (error: any) {
-				if (error.message.includes("No active device")) {
-					vscode.window
-						.showInformationMessage(
-							"No active Spotify device found. Please open Spotify on one of your devices and try again.",
-							"Open Spotify Web Player",
-						)
-						.then((selection) => {
-							if (selection === "Open Spotify Web Player") {
-								vscode.env.openExternal(
-									vscode.Uri.parse("https://open.spotify.com"),
-								);
-							}
-						});
-				} else if (error.message.includes("Premium")) {
-					vscode.window
-						.showInformationMessage(
-							"Spotify Premium is required for playback control. Please upgrade your account.",
-							"Learn More",
-						)
-						.then((selection) => {
-							if (selection === "Learn More") {
-								vscode.env.openExternal(
-									vscode.Uri.parse("https://www.spotify.com/premium/"),
-								);
-							}
-						});
-				} else {
-					vscode.window.showErrorMessage(
-						`Failed to control playback: ${error.message || error}`,
-					);
-				}
-				logger.error(`Playback control error: ${error}`);
+				vscode.window.showErrorMessage(
+					`Failed to switch Spotify account: ${error.message || error}`,
+				);
+				logger.error(`Switch account error: ${error}`);
+			}
+		}),
+	);
+
+	context.subscriptions.push(
+		// Sign out and revoke access on every machine
+		vscode.commands.registerCommand("xilie.signOutEverywhere", async () => {
+			try {
+				await spotifyAuth.signOutEverywhere();
+				updateUIStatus();
+			} catch (error: any) {
+				vscode.window.showErrorMessage(
+					`Spotify sign-out failed: ${error.message || error}`,
+					"Close",
+				);
 			}
 		}),
 	);
 
+	context.subscriptions.push(
+		// Play/pause command
+		vscode.commands.registerCommand(
+			"xilie.playPause",
+			async (options?: PlaybackCommandOptions) => {
+				try {
+					const playbackState = await playerState.refresh();
+					logger.debug(`Current playback state: ${playbackState}`);
+					if (playbackState && playbackState.is_playing) {
+						if (playbackState.device?.id) {
+							await spotifyApi.pausePlayback(playbackState.device.id);
+						} else {
+							await spotifyApi.pausePlayback();
+						}
+						if (!options?.quiet) {
+							vscode.window.showInformationMessage("Spotify playback paused.");
+						}
+					} else {
+						await spotifyApi.startPlayback();
+						if (!options?.quiet) {
+							vscode.window.showInformationMessage(
+								"Spotify playback started/resumed.",
+							);
+						}
+					}
+					playerState.requestUpdate();
+				} catch (error: any) {
+					handleCommandError(error, "Failed to control playback");
+				}
+			},
+		),
+	);
+
 	context.subscriptions.push(
 		vscode.commands.registerCommand(
 			"xilie.selectDevice",
@@ -180,74 +356,200 @@ export function activate(context: vscode.ExtensionContext) {
 						`Playback transferred to device: ${device.name}`,
 						"Close",
 					);
+					await applyDefaultVolume(device.id);
 				} catch (error: any) {
-					vscode.window.showErrorMessage(
-						`Could to transfer playback to device: ${error.message}`,
-					);
-					logger.error(`Playback transfer error: ${error.message}`);
+					handleCommandError(error, "Could not transfer playback to device");
 				}
 			},
 		),
 	);
 
 	context.subscriptions.push(
-		vscode.commands.registerCommand("xilie.nextTrack", async () => {
-			try {
-				await spotifyApi.skipToNextTrack();
-				vscode.window.showInformationMessage("Skipped to next track.");
-				updatePlaybackStatusBar(); // Update status bar immediately after action
-			} catch (error: any) {
-				if (error.message.includes("No active device found")) {
-					vscode.window
-						.showInformationMessage(
-							"No active Spotify device found. Please open Spotify on one of your devices and try again.",
-							"Open Spotify Web Player",
-						)
-						.then((selection) => {
-							if (selection === "Open Spotify Web Player") {
-								vscode.env.openExternal(
-									vscode.Uri.parse("https://open.spotify.com"),
-								);
-							}
-						});
-				} else {
-					vscode.window.showErrorMessage(
-						`Failed to skip track: ${error.message}`,
-					);
+		vscode.commands.registerCommand(
+			"xilie.nextTrack",
+			async (options?: PlaybackCommandOptions) => {
+				try {
+					await spotifyApi.skipToNextTrack();
+					if (!options?.quiet) {
+						vscode.window.showInformationMessage("Skipped to next track.");
+					}
+					playerState.requestUpdate();
+				} catch (error: any) {
+					handleCommandError(error, "Failed to skip track");
 				}
-				logger.error(`Skip track error: ${error.message}`);
-			}
-		}),
+			},
+		),
 	);
 
 	context.subscriptions.push(
-		vscode.commands.registerCommand("xilie.previousTrack", async () => {
-			try {
-				await spotifyApi.skipToPreviousTrack();
-				vscode.window.showInformationMessage("Skipped to previous track.");
-				updatePlaybackStatusBar(); // Update status bar immediately after action
-			} catch (error: any) {
-				if (error.message.includes("No active device found")) {
-					vscode.window
-						.showInformationMessage(
-							"No active Spotify device found. Please open Spotify on one of your devices and try again.",
-							"Open Spotify Web Player",
-						)
-						.then((selection) => {
-							if (selection === "Open Spotify Web Player") {
-								vscode.env.openExternal(
-									vscode.Uri.parse("https://open.spotify.com"),
-								);
-							}
-						});
-				} else {
-					vscode.window.showErrorMessage(
-						`Failed to skip track: ${error.message}`,
+		vscode.commands.registerCommand(
+			"xilie.previousTrack",
+			async (options?: PlaybackCommandOptions) => {
+				try {
+					await spotifyApi.skipToPreviousTrack();
+					if (!options?.quiet) {
+						vscode.window.showInformationMessage("Skipped to previous track.");
+					}
+					playerState.requestUpdate();
+				} catch (error: any) {
+					handleCommandError(error, "Failed to skip track");
+				}
+			},
+		),
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand("xilie.volumeUp", () =>
+			changeVolume((volume) => volume + getVolumeStep()),
+		),
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand("xilie.volumeDown", () =>
+			changeVolume((volume) => volume - getVolumeStep()),
+		),
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand("xilie.toggleMute", () =>
+			changeVolume((volume) => {
+				if (volume > 0) {
+					volumeBeforeMute = volume;
+					return 0;
+				}
+				// Unmute to where we were, or the default level if we didn't mute
+				return volumeBeforeMute ?? getDefaultVolume();
+			}),
+		),
+	);
+
+	context.subscriptions.push(
+		// Prompts for the level unless one is passed, e.g. by the Now Playing view
+		vscode.commands.registerCommand(
+			"xilie.setVolume",
+			async (level?: number) => {
+				if (typeof level === "number") {
+					await changeVolume(() => level);
+					return;
+				}
+				const value = await vscode.window.showInputBox({
+					title: "Set Volume",
+					prompt: "Volume level (0-100)",
+					validateInput: (input) =>
+						/^\d+$/.test(input.trim()) && parseInt(input, 10) <= 100
+							? undefined
+							: "Enter a number from 0 to 100",
+				});
+				if (value !== undefined) {
+					await changeVolume(() => parseInt(value, 10));
+				}
+			},
+		),
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			"xilie.toggleShuffle",
+			async (options?: PlaybackCommandOptions) => {
+				try {
+					const playbackState = await getActivePlayback();
+					const shuffle = !playbackState.shuffle_state;
+					await spotifyApi.setShuffle(shuffle, playbackState.device.id);
+					if (!options?.quiet) {
+						vscode.window.showInformationMessage(
+							`Shuffle ${shuffle ? "on" : "off"}.`,
+						);
+					}
+					playerState.requestUpdate();
+				} catch (error: any) {
+					handleCommandError(error, "Failed to toggle shuffle");
+				}
+			},
+		),
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			"xilie.cycleRepeat",
+			async (options?: PlaybackCommandOptions) => {
+				try {
+					const playbackState = await getActivePlayback();
+					// off -> context (album/playlist) -> track -> off, like the Spotify app
+					const next: Record<SpotifyRepeatState, SpotifyRepeatState> = {
+						off: "context",
+						context: "track",
+						track: "off",
+					};
+					const repeat = next[playbackState.repeat_state] ?? "off";
+					await spotifyApi.setRepeatMode(repeat, playbackState.device.id);
+					if (!options?.quiet) {
+						vscode.window.showInformationMessage(
+							`Repeat: ${REPEAT_LABELS[repeat]}.`,
+						);
+					}
+					playerState.requestUpdate();
+				} catch (error: any) {
+					handleCommandError(error, "Failed to change repeat mode");
+				}
+			},
+		),
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand("xilie.seekForward", () =>
+			seekBy(SEEK_STEP_MS),
+		),
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand("xilie.seekBackward", () =>
+			seekBy(-SEEK_STEP_MS),
+		),
+	);
+
+	context.subscriptions.push(
+		// Prompts for the position unless one is passed, e.g. by the Now Playing view
+		vscode.commands.registerCommand(
+			"xilie.seekTo",
+			async (positionMs?: number) => {
+				try {
+					const playbackState = await getActivePlayback();
+					if (typeof positionMs === "number") {
+						await spotifyApi.seekToPosition(
+							positionMs,
+							playbackState.device.id,
+						);
+						playerState.requestUpdate();
+						return;
+					}
+
+					const duration = playbackState.item?.duration_ms;
+					const value = await vscode.window.showInputBox({
+						title: "Seek to Position",
+						prompt: duration
+							? `Position in the current track (0:00 - ${formatDuration(duration)})`
+							: "Position in the current track",
+						placeHolder: "e.g. 1:30 or 90",
+						value: formatDuration(playbackState.progress_ms),
+						validateInput: (input) =>
+							parseDuration(input) === undefined
+								? "Enter seconds (90), m:ss (1:30) or h:mm:ss (1:02:30)"
+								: undefined,
+					});
+					if (value === undefined) {
+						return;
+					}
+
+					await spotifyApi.seekToPosition(
+						parseDuration(value)!,
+						playbackState.device.id,
 					);
+					playerState.requestUpdate();
+				} catch (error: any) {
+					handleCommandError(error, "Failed to seek");
 				}
-				logger.error(`Skip track error: ${error.message}`);
-			}
-		}),
+			},
+		),
 	);
 
 	// Playback commands for tree items (playlists, albums, tracks)
@@ -260,27 +562,9 @@ export function activate(context: vscode.ExtensionContext) {
 					vscode.window.showInformationMessage(
 						`Playing playlist: ${playlist.name}`,
 					);
-					updatePlaybackStatusBar(); // Update status bar immediately after action
+					playerState.requestUpdate();
 				} catch (error: any) {
-					if (error.message.includes("No active device found")) {
-						vscode.window
-							.showInformationMessage(
-								"No active Spotify device found. Please open Spotify on one of your devices and try again.",
-								"Open Spotify Web Player",
-							)
-							.then((selection) => {
-								if (selection === "Open Spotify Web Player") {
-									vscode.env.openExternal(
-										vscode.Uri.parse("https://open.spotify.com"),
-									);
-								}
-							});
-					} else {
-						vscode.window.showErrorMessage(
-							`Failed to play playlist: ${error.message || error}`,
-						);
-					}
-					logger.error(`Play playlist error: ${error}`);
+					handleCommandError(error, "Failed to play playlist");
 				}
 			},
 		),
@@ -295,27 +579,9 @@ export function activate(context: vscode.ExtensionContext) {
 					vscode.window.showInformationMessage(
 						`Playing top tracks for artist: ${artist.name}`,
 					);
-					updatePlaybackStatusBar();
+					playerState.requestUpdate();
 				} catch (error: any) {
-					if (error.message.includes("No active device found")) {
-						vscode.window
-							.showInformationMessage(
-								"No active Spotify device found. Open Spotify on one of your devices and try again.",
-								"Open Spotify Web Player",
-							)
-							.then((selection) => {
-								if (selection === "Open Spotify Web Player") {
-									vscode.env.openExternal(
-										vscode.Uri.parse("https://open.spotify.com"),
-									);
-								}
-							});
-					} else {
-						vscode.window.showErrorMessage(
-							`Failed to play artist's top tracks: ${error.message || error}`,
-						);
-					}
-					logger.error(`Play artist top tracks error: ${error}`);
+					handleCommandError(error, "Failed to play artist's top tracks");
 				}
 			},
 		),
@@ -326,26 +592,9 @@ export function activate(context: vscode.ExtensionContext) {
 			try {
 				await spotifyApi.startPlayback(undefined, uri); // Start playback of the album
 				vscode.window.showInformationMessage(`Playing album: ${uri}`);
-				updatePlaybackStatusBar(); // Update status bar immediately after action
+				playerState.requestUpdate();
 			} catch (error: any) {
-				if (error.message.includes("No active device found")) {
-					vscode.window
-						.showInformationMessage(
-							"No active Spotify device found. Open Spotify on one of your devices and try again.",
-						)
-						.then((selection) => {
-							if (selection === "Open Spotify Web Player") {
-								vscode.env.openExternal(
-									vscode.Uri.parse("https://open.spotify.com"),
-								);
-							}
-						});
-				} else {
-					vscode.window.showErrorMessage(
-						`Failed to play album: ${error.message || error}`,
-					);
-				}
-				logger.error(`Play album error: ${error}`);
+				handleCommandError(error, "Failed to play album");
 			}
 		}),
 	);
@@ -359,27 +608,181 @@ export function activate(context: vscode.ExtensionContext) {
 					vscode.window.showInformationMessage(
 						`Playing track: ${track.name} - ${track.artists}`,
 					);
-					updatePlaybackStatusBar(); // Update status bar immediately after action
+					playerState.requestUpdate();
 				} catch (error: any) {
-					if (error.message.includes("No active device found")) {
-						vscode.window
-							.showInformationMessage(
-								"No active Spotify device found. Open Spotify on one of your devices and try again.",
-								"Open Spotify Web Player",
-							)
-							.then((selection) => {
-								if (selection === "Open Spotify Web Player") {
-									vscode.env.openExternal(
-										vscode.Uri.parse("https://open.spotify.com"),
-									);
-								}
-							});
+					handleCommandError(error, "Failed to play track");
+				}
+			},
+		),
+	);
+
+	// Context menu and inline actions of tree items, see package.json
+	context.subscriptions.push(
+		vscode.commands.registerCommand("xilie.play", (item: SpotifyTreeItem) =>
+			runItemCommand(item),
+		),
+		vscode.commands.registerCommand(
+			"xilie.shufflePlay",
+			async (item: SpotifyTreeItem) => {
+				try {
+					const device = (await playerState.refresh())?.device;
+					if (device?.id) {
+						// Shuffle first, so Spotify picks a random first track too
+						await spotifyApi.setShuffle(true, device.id);
+						await spotifyApi.startPlayback(device.id, item.spotifyUri);
 					} else {
-						vscode.window.showErrorMessage(
-							`Failed to play track: ${error.message || error}`,
-						);
+						// Shuffle needs an active device, which there is only once
+						// playback started. Skip the first track, it wasn't shuffled
+						await spotifyApi.startPlayback(undefined, item.spotifyUri);
+						await spotifyApi.setShuffle(true);
+						await spotifyApi.skipToNextTrack();
 					}
-					logger.error(`Play track error: ${error.message}`);
+					vscode.window.showInformationMessage(`Shuffling ${item.label}`);
+					playerState.requestUpdate();
+				} catch (error: any) {
+					handleCommandError(error, `Failed to shuffle ${item.label}`);
+				}
+			},
+		),
+		vscode.commands.registerCommand(
+			"xilie.goToAlbum",
+			async (item: SpotifyTreeItem) => {
+				try {
+					const { album } = await spotifyApi.getTrack(item.spotifyId);
+					await pickAlbumTrack(album);
+				} catch (error: any) {
+					handleCommandError(error, "Failed to show album");
+				}
+			},
+		),
+		vscode.commands.registerCommand(
+			"xilie.goToArtist",
+			async (item: SpotifyTreeItem) => {
+				try {
+					const { artists } = await spotifyApi.getTrack(item.spotifyId);
+					const artist =
+						artists.length === 1
+							? artists[0]
+							: (
+									await vscode.window.showQuickPick(
+										artists.map((candidate) => ({
+											label: candidate.name,
+											artist: candidate,
+										})),
+										{ title: "Go to Artist" },
+									)
+								)?.artist;
+					if (artist) {
+						await pickArtistAlbum(artist);
+					}
+				} catch (error: any) {
+					handleCommandError(error, "Failed to show artist");
+				}
+			},
+		),
+		vscode.commands.registerCommand(
+			"xilie.showArtistAlbums",
+			async (item: SpotifyTreeItem) => {
+				try {
+					await pickArtistAlbum({ id: item.spotifyId, name: item.label });
+				} catch (error: any) {
+					handleCommandError(error, "Failed to show albums");
+				}
+			},
+		),
+		vscode.commands.registerCommand(
+			"xilie.followArtist",
+			async (item: SpotifyTreeItem) => {
+				try {
+					await spotifyApi.followArtists([item.spotifyId]);
+					vscode.window.showInformationMessage(`Following ${item.label}`);
+					sidebarViews["artists"].refresh();
+				} catch (error: any) {
+					handleCommandError(error, "Failed to follow artist");
+				}
+			},
+		),
+		vscode.commands.registerCommand(
+			"xilie.unfollowArtist",
+			async (item: SpotifyTreeItem) => {
+				try {
+					await spotifyApi.unfollowArtists([item.spotifyId]);
+					vscode.window.showInformationMessage(`Unfollowed ${item.label}`);
+					sidebarViews["artists"].refresh();
+				} catch (error: any) {
+					handleCommandError(error, "Failed to unfollow artist");
+				}
+			},
+		),
+		vscode.commands.registerCommand(
+			"xilie.unfollowPlaylist",
+			async (item: SpotifyTreeItem) => {
+				// Spotify has no delete, unfollowing your own playlist removes it
+				const confirmation = await vscode.window.showWarningMessage(
+					`Remove ${item.label} from your library?`,
+					{
+						modal: true,
+						detail: item.editable
+							? "Playlists you created can be restored from your Spotify account page."
+							: undefined,
+					},
+					"Remove",
+				);
+				if (confirmation !== "Remove") {
+					return;
+				}
+
+				try {
+					await spotifyApi.unfollowPlaylist(item.spotifyId);
+					sidebarViews["playlists"].refresh();
+				} catch (error: any) {
+					handleCommandError(error, "Failed to remove playlist");
+				}
+			},
+		),
+		vscode.commands.registerCommand(
+			"xilie.copyLink",
+			async (item: SpotifyTreeItem) => {
+				await vscode.env.clipboard.writeText(getWebPlayerUrl(item));
+				vscode.window.setStatusBarMessage(`Copied link to ${item.label}`, 2000);
+			},
+		),
+		vscode.commands.registerCommand(
+			"xilie.copyUri",
+			async (item: SpotifyTreeItem) => {
+				await vscode.env.clipboard.writeText(item.spotifyUri);
+				vscode.window.setStatusBarMessage(`Copied URI of ${item.label}`, 2000);
+			},
+		),
+		vscode.commands.registerCommand(
+			"xilie.openInBrowser",
+			(item: SpotifyTreeItem) =>
+				vscode.env.openExternal(vscode.Uri.parse(getWebPlayerUrl(item))),
+		),
+		vscode.commands.registerCommand(
+			"xilie.transferPlayback",
+			(item: SpotifyTreeItem) => runItemCommand(item),
+		),
+		vscode.commands.registerCommand(
+			"xilie.setDeviceVolume",
+			async (item: SpotifyTreeItem) => {
+				const value = await vscode.window.showInputBox({
+					title: `Set Volume of ${item.label}`,
+					prompt: "Volume level (0-100)",
+					validateInput: (input) =>
+						/^\d+$/.test(input.trim()) && parseInt(input, 10) <= 100
+							? undefined
+							: "Enter a number from 0 to 100",
+				});
+				if (value === undefined) {
+					return;
+				}
+
+				try {
+					await spotifyApi.setVolume(parseInt(value, 10), item.spotifyId);
+					playerState.requestUpdate();
+				} catch (error: any) {
+					handleCommandError(error, `Failed to set volume of ${item.label}`);
 				}
 			},
 		),
@@ -404,33 +807,394 @@ export function activate(context: vscode.ExtensionContext) {
 	);
 
 	context.subscriptions.push(
-		vscode.commands.registerCommand("xilie.refreshAll", () => {
-			updateUIStatus();
-		}),
-	);
+		vscode.commands.registerCommand("xilie.filterPlaylists", () =>
+			filterView(
+				"playlists",
+				"Filter playlists by name, owner, track or artist",
+			),
+		),
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand("xilie.clearPlaylistsFilter", () =>
+			setViewFilter("playlists", undefined),
+		),
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand("xilie.filterArtists", () =>
+			filterView("artists", "Filter artists by name"),
+		),
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand("xilie.clearArtistsFilter", () =>
+			setViewFilter("artists", undefined),
+		),
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand("xilie.refreshAll", () => {
+			spotifyApi.invalidateCache();
+			likedTracks.clear();
+			updateUIStatus();
+		}),
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand("xilie.refreshPlaylists", () => {
+			spotifyApi.invalidateCache("/me/playlists");
+			spotifyApi.invalidateCache("/playlists/");
+			sidebarViews["playlists"].refresh();
+		}),
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand("xilie.refreshArtists", () => {
+			spotifyApi.invalidateCache("/me/following");
+			spotifyApi.invalidateCache("/artists/");
+			sidebarViews["artists"].refresh();
+		}),
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand("xilie.refreshRecents", () => {
+			spotifyApi.invalidateCache("/me/player/recently-played");
+			sidebarViews["recents"].refresh();
+		}),
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand("xilie.refreshDevices", () => {
+			sidebarViews["devices"].refresh();
+		}),
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand("xilie.refreshQueue", () => {
+			sidebarViews["queue"].refresh();
+		}),
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand("xilie.refreshLikedSongs", () => {
+			spotifyApi.invalidateCache("/me/tracks");
+			// Tracks may have been liked or unliked in another app
+			likedTracks.clear();
+			sidebarViews["likedSongs"].refresh();
+		}),
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand("xilie.refreshSavedAlbums", () => {
+			spotifyApi.invalidateCache("/me/albums");
+			spotifyApi.invalidateCache("/albums/");
+			sidebarViews["savedAlbums"].refresh();
+		}),
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			"xilie.toggleLike",
+			async (options?: PlaybackCommandOptions) => {
+				try {
+					const { item: track } = await getActivePlayback();
+					if (!track || !track.uri.startsWith("spotify:track:")) {
+						vscode.window.showInformationMessage(
+							"No track is playing right now.",
+						);
+						return;
+					}
+					await likedTracks.check([track.id]);
+					const liked = !likedTracks.get(track.id);
+					await likedTracks.setLiked([track.id], liked);
+					if (!options?.quiet) {
+						vscode.window.showInformationMessage(
+							liked
+								? `Saved to Liked Songs: ${track.name}`
+								: `Removed from Liked Songs: ${track.name}`,
+						);
+					}
+				} catch (error: any) {
+					handleCommandError(error, "Failed to update Liked Songs");
+				}
+			},
+		),
+	);
+
+	context.subscriptions.push(
+		// Invoked from the context menu of track items in every tree
+		vscode.commands.registerCommand(
+			"xilie.saveToLikedSongs",
+			(item: SpotifyTreeItem, selected?: SpotifyTreeItem[]) =>
+				setTracksLiked(getSelectedTracks(item, selected), true),
+		),
+		vscode.commands.registerCommand(
+			"xilie.removeFromLikedSongs",
+			(item: SpotifyTreeItem, selected?: SpotifyTreeItem[]) =>
+				setTracksLiked(getSelectedTracks(item, selected), false),
+		),
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand("xilie.createPlaylist", async () => {
+			const name = await vscode.window.showInputBox({
+				title: "New Playlist",
+				prompt: "Name of the playlist",
+				validateInput: (input) =>
+					input.trim() ? undefined : "Enter a name for the playlist",
+			});
+			if (name === undefined) {
+				return;
+			}
+			const visibility = await vscode.window.showQuickPick(
+				[
+					{ label: "Private", description: "Only you can find it" },
+					{ label: "Public", description: "Shown on your profile" },
+				],
+				{ title: "New Playlist", placeHolder: "Who can see the playlist?" },
+			);
+			if (!visibility) {
+				return;
+			}
+
+			try {
+				const playlist = await spotifyApi.createPlaylist(name.trim(), {
+					public: visibility.label === "Public",
+				});
+				vscode.window.showInformationMessage(
+					`Created playlist: ${playlist.name}`,
+				);
+				sidebarViews["playlists"].refresh();
+			} catch (error: any) {
+				handleCommandError(error, "Failed to create playlist");
+			}
+		}),
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			"xilie.addCurrentTrackToPlaylist",
+			async () => {
+				try {
+					const { item: track } = await getActivePlayback();
+					if (!track || !track.uri.startsWith("spotify:track:")) {
+						vscode.window.showInformationMessage(
+							"No track is playing right now.",
+						);
+						return;
+					}
+					const playlist = await pickEditablePlaylist(
+						`Add "${track.name}" to Playlist`,
+					);
+					if (!playlist) {
+						return;
+					}
+					await spotifyApi.addTracksToPlaylist(playlist.id, [track.uri]);
+					vscode.window.showInformationMessage(
+						`Added "${track.name}" to ${playlist.name}`,
+					);
+					sidebarViews["playlists"].refreshPlaylist(playlist.id);
+				} catch (error: any) {
+					handleCommandError(error, "Failed to add track to playlist");
+				}
+			},
+		),
+	);
+
+	context.subscriptions.push(
+		// Invoked from the context menu of tracks in playlists the user can edit
+		vscode.commands.registerCommand(
+			"xilie.removeFromPlaylist",
+			async (item: SpotifyTreeItem, selected?: SpotifyTreeItem[]) => {
+				// Tracks can be selected across several playlists
+				const byPlaylist = new Map<SpotifyTreeItem, SpotifyTreeItem[]>();
+				// Unavailable tracks can't be played, but can still be removed
+				for (const track of getSelectedTracks(item, selected, true)) {
+					if (track.playlist?.editable) {
+						const tracks = byPlaylist.get(track.playlist) ?? [];
+						tracks.push(track);
+						byPlaylist.set(track.playlist, tracks);
+					}
+				}
+				if (byPlaylist.size === 0) {
+					return;
+				}
+
+				const count = [...byPlaylist.values()].flat().length;
+				const confirmation = await vscode.window.showWarningMessage(
+					count === 1
+						? `Remove "${item.label}" from ${item.playlist?.label}?`
+						: `Remove ${count} tracks from ${byPlaylist.size === 1 ? [...byPlaylist.keys()][0].label : `${byPlaylist.size} playlists`}?`,
+					{
+						modal: true,
+						detail: "Every occurrence of the tracks is removed.",
+					},
+					"Remove",
+				);
+				if (confirmation !== "Remove") {
+					return;
+				}
+
+				for (const [playlist, tracks] of byPlaylist) {
+					try {
+						// Spotify removes at most 100 tracks per request
+						await runInBatches(
+							`Removing tracks from ${playlist.label}`,
+							tracks,
+							100,
+							async (batch) => {
+								playlist.snapshotId = await spotifyApi.removeTracksFromPlaylist(
+									playlist.spotifyId,
+									batch.map((track) => track.listedUri),
+									playlist.snapshotId,
+								);
+							},
+						);
+					} catch (error: any) {
+						handleCommandError(error, "Failed to remove tracks from playlist");
+					}
+					sidebarViews["playlists"].refreshItem(playlist);
+				}
+			},
+		),
+		vscode.commands.registerCommand(
+			"xilie.moveTrackUp",
+			(item: SpotifyTreeItem) => movePlaylistTrack(item, -1),
+		),
+		vscode.commands.registerCommand(
+			"xilie.moveTrackDown",
+			(item: SpotifyTreeItem) => movePlaylistTrack(item, 1),
+		),
+	);
+
+	context.subscriptions.push(
+		// Invoked from the context menu of playlists the user can edit
+		vscode.commands.registerCommand(
+			"xilie.renamePlaylist",
+			async (item: SpotifyTreeItem) => {
+				const name = await vscode.window.showInputBox({
+					title: "Rename Playlist",
+					prompt: "New name of the playlist",
+					value: item.label,
+					validateInput: (input) =>
+						input.trim() ? undefined : "Enter a name for the playlist",
+				});
+				if (name === undefined || name.trim() === item.label) {
+					return;
+				}
 
-	context.subscriptions.push(
-		vscode.commands.registerCommand("xilie.refreshPlaylists", () => {
-			sidebarViews["playlists"].refresh();
-		}),
-	);
+				try {
+					await spotifyApi.changePlaylistDetails(item.spotifyId, {
+						name: name.trim(),
+					});
+					// The name is shown in the list of playlists
+					sidebarViews["playlists"].refresh();
+				} catch (error: any) {
+					handleCommandError(error, "Failed to rename playlist");
+				}
+			},
+		),
+		vscode.commands.registerCommand(
+			"xilie.editPlaylistDescription",
+			async (item: SpotifyTreeItem) => {
+				const description = await vscode.window.showInputBox({
+					title: `Edit Description of ${item.label}`,
+					prompt: "Description of the playlist, leave empty to clear it",
+					value: item.playlistDescription ?? "",
+				});
+				if (description === undefined) {
+					return;
+				}
 
-	context.subscriptions.push(
-		vscode.commands.registerCommand("xilie.refreshArtists", () => {
-			sidebarViews["artists"].refresh();
-		}),
+				try {
+					await spotifyApi.changePlaylistDetails(item.spotifyId, {
+						description: description.trim(),
+					});
+					item.playlistDescription = description.trim();
+					vscode.window.showInformationMessage(
+						`Updated the description of ${item.label}`,
+					);
+				} catch (error: any) {
+					handleCommandError(error, "Failed to update playlist description");
+				}
+			},
+		),
 	);
 
 	context.subscriptions.push(
-		vscode.commands.registerCommand("xilie.refreshRecents", () => {
-			sidebarViews["recents"].refresh();
-		}),
+		// Invoked by the "Load more..." item at the end of paged lists
+		vscode.commands.registerCommand(
+			"xilie.loadMore",
+			async (viewId: string, key: string) => {
+				const provider = Object.values(sidebarViews).find(
+					(view) => view.viewId === viewId,
+				);
+				try {
+					await provider?.loadMore(key);
+				} catch (error: any) {
+					handleCommandError(error, "Failed to load more items");
+				}
+			},
+		),
 	);
 
 	context.subscriptions.push(
-		vscode.commands.registerCommand("xilie.refreshDevices", () => {
-			sidebarViews["devices"].refresh();
-		}),
+		// Invoked from the context menu of track items in every tree
+		vscode.commands.registerCommand(
+			"xilie.addToQueue",
+			(item: SpotifyTreeItem, selected?: SpotifyTreeItem[]) =>
+				queueTracks(getSelectedTracks(item, selected)),
+		),
+		vscode.commands.registerCommand(
+			"xilie.playSelection",
+			async (item: SpotifyTreeItem, selected?: SpotifyTreeItem[]) => {
+				const tracks = getSelectedTracks(item, selected);
+				if (tracks.length === 0) {
+					return;
+				}
+				try {
+					// One request plays them all, in tree order
+					await spotifyApi.startPlayback(
+						undefined,
+						undefined,
+						tracks.map((track) => track.spotifyUri),
+					);
+					vscode.window.showInformationMessage(
+						`Playing ${tracks.length === 1 ? tracks[0].label : `${tracks.length} tracks`}`,
+					);
+					playerState.requestUpdate();
+				} catch (error: any) {
+					handleCommandError(error, "Failed to play selection");
+				}
+			},
+		),
+		vscode.commands.registerCommand(
+			"xilie.addSelectionToPlaylist",
+			async (item: SpotifyTreeItem, selected?: SpotifyTreeItem[]) => {
+				const tracks = getSelectedTracks(item, selected);
+				if (tracks.length === 0) {
+					return;
+				}
+				try {
+					const playlist = await pickEditablePlaylist(
+						tracks.length === 1
+							? `Add "${tracks[0].label}" to Playlist`
+							: `Add ${tracks.length} Tracks to Playlist`,
+					);
+					if (!playlist) {
+						return;
+					}
+					await addTracksToPlaylist(
+						sidebarViews["playlists"].getPlaylistItem(playlist.id) ??
+							SpotifyTreeItem.fromPlaylist(playlist),
+						tracks,
+					);
+				} catch (error: any) {
+					handleCommandError(error, "Failed to add tracks to playlist");
+				}
+			},
+		),
 	);
 
 	context.subscriptions.push(
@@ -502,12 +1266,13 @@ export function activate(context: vscode.ExtensionContext) {
 						) {
 							allItems.push(
 								...results.tracks.items
-									.filter((track: any) => track !== null)
-									.map((track: any) => ({
+									.filter((track): track is SpotifyTrack => track !== null)
+									.map((track) => ({
 										label: `${track.name}`,
-										description: `by ${track.artists.map((artist: any) => artist.name).join(", ")}`,
+										description: `by ${track.artists.map((artist) => artist.name).join(", ")}`,
 										detail: "Track",
 										alwaysShow: true,
+										buttons: [ADD_TO_QUEUE_BUTTON],
 										iconPath:
 											track.album.images[0] && track.album.images[0].url
 												? vscode.Uri.parse(track.album.images[0].url)
@@ -525,8 +1290,8 @@ export function activate(context: vscode.ExtensionContext) {
 						) {
 							allItems.push(
 								...results.artists.items
-									.filter((artist: any) => artist !== null)
-									.map((artist: any) => ({
+									.filter((artist): artist is SpotifyArtist => artist !== null)
+									.map((artist) => ({
 										label: `${artist.name}`,
 										description: `followed by ${artist.followers.total.toLocaleString()}`,
 										detail: "Artist",
@@ -548,8 +1313,11 @@ export function activate(context: vscode.ExtensionContext) {
 						) {
 							allItems.push(
 								...results.playlists.items
-									.filter((playlist: any) => playlist !== null)
-									.map((playlist: any) => ({
+									.filter(
+										(playlist): playlist is SpotifyPlaylist =>
+											playlist !== null,
+									)
+									.map((playlist) => ({
 										label: `${playlist.name}`,
 										description: `by ${playlist.owner.display_name}`,
 										detail: "Playlist",
@@ -571,10 +1339,10 @@ export function activate(context: vscode.ExtensionContext) {
 						) {
 							allItems.push(
 								...results.albums.items
-									.filter((album: any) => album !== null)
-									.map((album: any) => ({
+									.filter((album): album is SpotifyAlbum => album !== null)
+									.map((album) => ({
 										label: `${album.name}`,
-										description: `by ${album.artists.map((artist: any) => artist.name).join(", ")}`,
+										description: `by ${album.artists.map((artist) => artist.name).join(", ")}`,
 										detail: "Album",
 										alwaysShow: true,
 										iconPath:
@@ -614,129 +1382,52 @@ export function activate(context: vscode.ExtensionContext) {
 
 			quickPick.onDidAccept(async () => {
 				const selectedItem: any = quickPick.selectedItems[0];
-				switch (selectedItem.detail) {
-					case "Track":
-						try {
+				quickPick.hide();
+				try {
+					switch (selectedItem?.detail) {
+						case "Track":
 							await spotifyApi.startPlayback(undefined, undefined, [
 								selectedItem.uri,
 							]);
 							vscode.window.showInformationMessage(
 								`Playing track: ${selectedItem.label}`,
 							);
-							updatePlaybackStatusBar();
 							break;
-						} catch (error: any) {
-							if (error.message.includes("No active device found")) {
-								vscode.window
-									.showInformationMessage(
-										"No active Spotify device found. Open Spotify on one of your devices and try again.",
-										"Open Spotify Web Player",
-									)
-									.then((selection) => {
-										if (selection === "Open Spotify Web Player") {
-											vscode.env.openExternal(
-												vscode.Uri.parse("https://open.spotify.com"),
-											);
-										}
-									});
-							} else {
-								vscode.window.showErrorMessage(
-									`Failed to play track: ${error.message || error}`,
-								);
-							}
-							logger.error(`Play track error: ${error.message}`);
-						}
-					case "Artist":
-						try {
+						case "Artist":
 							await spotifyApi.startPlayback(undefined, selectedItem.uri);
 							vscode.window.showInformationMessage(
 								`Playing top tracks for artist: ${selectedItem.label}`,
 							);
-							updatePlaybackStatusBar();
 							break;
-						} catch (error: any) {
-							if (error.message.includes("No active device found")) {
-								vscode.window
-									.showInformationMessage(
-										"No active Spotify device found. Open Spotify on one of your devices and try again.",
-										"Open Spotify Web Player",
-									)
-									.then((selection) => {
-										if (selection === "Open Spotify Web Player") {
-											vscode.env.openExternal(
-												vscode.Uri.parse("https://open.spotify.com"),
-											);
-										}
-									});
-							} else {
-								vscode.window.showErrorMessage(
-									`Failed to play artist's top tracks: ${error.message || error}`,
-								);
-							}
-							logger.error(`Play artist top tracks error: ${error}`);
-						}
-					case "Playlist":
-						try {
+						case "Playlist":
 							await spotifyApi.startPlayback(undefined, selectedItem.uri);
 							vscode.window.showInformationMessage(
 								`Playing playlist: ${selectedItem.label}`,
 							);
-							updatePlaybackStatusBar();
 							break;
-						} catch (error: any) {
-							if (error.message.includes("No active device found")) {
-								vscode.window
-									.showInformationMessage(
-										"No active Spotify device found. Please open Spotify on one of your devices and try again.",
-										"Open Spotify Web Player",
-									)
-									.then((selection) => {
-										if (selection === "Open Spotify Web Player") {
-											vscode.env.openExternal(
-												vscode.Uri.parse("https://open.spotify.com"),
-											);
-										}
-									});
-							} else {
-								vscode.window.showErrorMessage(
-									`Failed to play playlist: ${error.message || error}`,
-								);
-							}
-							logger.error(`Play playlist error: ${error}`);
-						}
-					case "Album":
-						try {
+						case "Album":
 							await spotifyApi.startPlayback(undefined, selectedItem.uri);
 							vscode.window.showInformationMessage(
 								`Playing album: ${selectedItem.label}`,
 							);
-							updatePlaybackStatusBar();
 							break;
-						} catch (error: any) {
-							if (error.message.includes("No active device found")) {
-								vscode.window
-									.showInformationMessage(
-										"No active Spotify device found. Open Spotify on one of your devices and try again.",
-									)
-									.then((selection) => {
-										if (selection === "Open Spotify Web Player") {
-											vscode.env.openExternal(
-												vscode.Uri.parse("https://open.spotify.com"),
-											);
-										}
-									});
-							} else {
-								vscode.window.showErrorMessage(
-									`Failed to play album: ${error.message || error}`,
-								);
-							}
-							logger.error(`Play album error: ${error}`);
-						}
-					default:
-						// Do nothing for non-actionable items
-						break;
+						default:
+							// Do nothing for non-actionable items
+							return;
+					}
+					playerState.requestUpdate();
+				} catch (error: any) {
+					handleCommandError(
+						error,
+						`Failed to play ${selectedItem.detail.toLowerCase()}`,
+					);
 				}
-				quickPick.hide();
+			});
+
+			// Secondary action on track results: queue instead of playing
+			quickPick.onDidTriggerItemButton(({ item }) => {
+				const selectedItem = item as vscode.QuickPickItem & { uri: string };
+				queueTrack(selectedItem.uri, selectedItem.label);
 			});
 
 			quickPick.onDidHide(() => quickPick.dispose());
@@ -746,38 +1437,70 @@ export function activate(context: vscode.ExtensionContext) {
 	);
 
 	// --- Register UI Components ---
-	vscode.window.registerTreeDataProvider(
-		"xiliePlaylists",
-		sidebarViews["playlists"],
-	);
-	vscode.window.registerTreeDataProvider(
-		"xilieRecents",
-		sidebarViews["recents"],
-	);
-	vscode.window.registerTreeDataProvider(
-		"xilieDevices",
-		sidebarViews["devices"],
-	);
-	vscode.window.registerTreeDataProvider(
-		"xilieArtists",
-		sidebarViews["artists"],
+	const dropHandler: TrackDropHandler = {
+		addToPlaylist: addTracksToPlaylist,
+		reorderPlaylist: moveTracksInPlaylist,
+		playOnDevice: playTracksOnDevice,
+	};
+	// Tracks can be dragged out of every tree, and dropped on playlists and devices
+	const treeViews: [viewId: string, key: string, acceptsDrops: boolean][] = [
+		["xiliePlaylists", "playlists", true],
+		["xilieRecents", "recents", false],
+		["xilieDevices", "devices", true],
+		["xilieArtists", "artists", false],
+		["xilieQueue", "queue", false],
+		["xilieLikedSongs", "likedSongs", false],
+		["xilieSavedAlbums", "savedAlbums", false],
+	];
+	for (const [viewId, key, acceptsDrops] of treeViews) {
+		sidebarTreeViews[key] = vscode.window.createTreeView(viewId, {
+			treeDataProvider: sidebarViews[key],
+			canSelectMany: true,
+			dragAndDropController: new SpotifyDragAndDropController(
+				dropHandler,
+				acceptsDrops,
+			),
+		});
+		context.subscriptions.push(sidebarTreeViews[key]);
+	}
+	context.subscriptions.push(
+		nowPlaying,
+		vscode.window.registerWebviewViewProvider(
+			NowPlayingViewProvider.viewId,
+			nowPlaying,
+		),
 	);
 
-	context.subscriptions.push(statusBar.statusBarItem);
+	// Disposes both the playback item and the heart
+	context.subscriptions.push(statusBar);
 
 	// --- Initial UI Update and Periodic Refresh ---
 	updateUIStatus();
 
-	// Get refresh interval from settings
-	const extensionConfig = vscode.workspace.getConfiguration("xilie");
-	const refreshInterval = extensionConfig.get<number>("refreshInterval", 5000);
-
-	setInterval(updateUIStatus, 60 * 1000); // Refresh every minute
-	let playbackInterval = setInterval(updatePlaybackStatusBar, refreshInterval); // Update playback status based on settings
+	// Playback state is polled by PlayerState, the trees are refreshed every minute
+	const uiInterval = setInterval(updateUIStatus, 60 * 1000);
+	context.subscriptions.push({ dispose: () => clearInterval(uiInterval) });
 
 	// Listen for configuration changes
 	context.subscriptions.push(
 		vscode.workspace.onDidChangeConfiguration((e) => {
+			if (e.affectsConfiguration("xilie.clientId")) {
+				spotifyAuth.invalidateIfClientChanged().then((cleared) => {
+					if (cleared) {
+						vscode.window
+							.showInformationMessage(
+								"Spotify client changed. Please sign in again.",
+								"Sign In",
+							)
+							.then((selection) => {
+								if (selection === "Sign In") {
+									vscode.commands.executeCommand("xilie.authenticate");
+								}
+							});
+					}
+				});
+			}
+
 			if (e.affectsConfiguration("xilie")) {
 				const updatedConfig = vscode.workspace.getConfiguration("xilie");
 
@@ -791,19 +1514,9 @@ export function activate(context: vscode.ExtensionContext) {
 				} else {
 					statusBar.hide();
 				}
-
-				// Update refresh interval
-				const newRefreshInterval = updatedConfig.get<number>(
-					"refreshInterval",
-					5000,
+				statusBar.setLikeButtonEnabled(
+					updatedConfig.get<boolean>("showLikeButton", true),
 				);
-				if (newRefreshInterval !== refreshInterval) {
-					clearInterval(playbackInterval);
-					playbackInterval = setInterval(
-						updatePlaybackStatusBar,
-						newRefreshInterval,
-					);
-				}
 			}
 		}),
 	);
@@ -814,43 +1527,684 @@ export function activate(context: vscode.ExtensionContext) {
 }
 
 // This method is called when your extension is deactivated
-export function deactivate() {
-	spotifyAuth.clearTokens();
+export async function deactivate() {
+	// Sessions persist across restarts unless the user opted out
+	const ephemeral = vscode.workspace
+		.getConfiguration("xilie")
+		.get<boolean>("ephemeralSessions", false);
+	if (ephemeral && spotifyAuth) {
+		await spotifyAuth.clearAllTokens();
+	}
+	// Subscriptions are disposed without waiting, make sure the cache is written
+	await responseCache?.dispose();
 }
 
-async function updateUIStatus() {
-	Object.values(sidebarViews).forEach((provider) => provider.refresh());
+/**
+ * Adds a track to the end of the queue.
+ * @param uri The track's Spotify URI.
+ * @param name The name shown in the confirmation.
+ */
+async function queueTrack(uri: string, name: string) {
+	try {
+		await spotifyApi.addToQueue(uri);
+		vscode.window.showInformationMessage(`Added to queue: ${name}`);
+		sidebarViews["queue"].refresh();
+	} catch (error: any) {
+		handleCommandError(error, "Failed to add to queue");
+	}
+}
+
+/**
+ * Adds tracks to the end of the queue, in order. Spotify queues one track
+ * per request, so longer selections show their progress.
+ * @param tracks The tracks to queue.
+ */
+async function queueTracks(tracks: SpotifyTreeItem[]) {
+	if (tracks.length === 0) {
+		return;
+	}
+	if (tracks.length === 1) {
+		await queueTrack(tracks[0].spotifyUri, tracks[0].label);
+		return;
+	}
+	try {
+		const queued = await runInBatches(
+			"Adding tracks to the queue",
+			tracks,
+			1,
+			async ([track]) => spotifyApi.addToQueue(track.spotifyUri),
+		);
+		// Fewer were queued if the batch was cancelled
+		vscode.window.showInformationMessage(
+			`Added ${queued === 1 ? "1 track" : `${queued} tracks`} to queue`,
+		);
+	} catch (error: any) {
+		handleCommandError(error, "Failed to add to queue");
+	}
+	sidebarViews["queue"].refresh();
 }
 
-async function updatePlaybackStatusBar() {
+/**
+ * Saves tracks to or removes them from Liked Songs, 50 per request.
+ * @param tracks The tracks.
+ * @param liked True to save them, false to remove them.
+ */
+async function setTracksLiked(tracks: SpotifyTreeItem[], liked: boolean) {
+	if (tracks.length === 0) {
+		return;
+	}
+	try {
+		const count = await runInBatches(
+			liked ? "Saving to Liked Songs" : "Removing from Liked Songs",
+			tracks,
+			50,
+			(batch) =>
+				likedTracks.setLiked(
+					batch.map((track) => track.listedId),
+					liked,
+				),
+		);
+		const what = tracks.length === 1 ? tracks[0].label : `${count} tracks`;
+		vscode.window.showInformationMessage(
+			liked
+				? `Saved to Liked Songs: ${what}`
+				: `Removed from Liked Songs: ${what}`,
+		);
+	} catch (error: any) {
+		handleCommandError(
+			error,
+			liked
+				? "Failed to save to Liked Songs"
+				: "Failed to remove from Liked Songs",
+		);
+	}
+}
+
+/**
+ * Returns the tracks a tree context menu command applies to: every selected
+ * track when the clicked item is part of the selection, else the clicked one.
+ * Tracks unavailable in the user's market are left out unless asked for.
+ * @param item The item the command was invoked on.
+ * @param selected The selected items, passed by VS Code for multi-selections.
+ * @param includeUnavailable Optional: Keep tracks unavailable in the user's
+ * market, e.g. to remove them from a playlist.
+ */
+function getSelectedTracks(
+	item: SpotifyTreeItem,
+	selected?: SpotifyTreeItem[],
+	includeUnavailable = false,
+): SpotifyTreeItem[] {
+	const items = selected?.includes(item) ? selected : [item];
+	return items.filter(
+		(candidate) =>
+			candidate.isTrack() && (includeUnavailable || !candidate.unavailable),
+	);
+}
+
+/**
+ * Runs an operation over items in batches, showing a cancellable progress
+ * notification when it takes more than one batch.
+ * @param title The title of the notification.
+ * @param items The items to process.
+ * @param batchSize How many items each call of `run` handles.
+ * @param run Processes one batch.
+ * @returns How many items were processed, fewer than all if cancelled.
+ */
+async function runInBatches<T>(
+	title: string,
+	items: T[],
+	batchSize: number,
+	run: (batch: T[]) => Promise<unknown>,
+): Promise<number> {
+	const batches: T[][] = [];
+	for (let i = 0; i < items.length; i += batchSize) {
+		batches.push(items.slice(i, i + batchSize));
+	}
+	if (batches.length <= 1) {
+		await Promise.all(batches.map(run));
+		return items.length;
+	}
+
+	return vscode.window.withProgress(
+		{
+			location: vscode.ProgressLocation.Notification,
+			title,
+			cancellable: true,
+		},
+		async (progress, token) => {
+			let done = 0;
+			for (const batch of batches) {
+				if (token.isCancellationRequested) {
+					break;
+				}
+				await run(batch);
+				done += batch.length;
+				progress.report({
+					increment: (batch.length / items.length) * 100,
+					message: `${done} of ${items.length}`,
+				});
+			}
+			return done;
+		},
+	);
+}
+
+/**
+ * Lets the user pick one of the playlists they can add tracks to.
+ * @param title The title of the quick pick.
+ * @returns The chosen playlist, or undefined if cancelled.
+ */
+async function pickEditablePlaylist(
+	title: string,
+): Promise<SpotifyPlaylist | undefined> {
+	const [playlists, user] = await Promise.all([
+		spotifyApi.getAllUserPlaylists(),
+		spotifyApi.getCurrentUserProfile(),
+	]);
+	const editable = playlists.filter(
+		(playlist) => playlist.owner.id === user.id || playlist.collaborative,
+	);
+	if (editable.length === 0) {
+		vscode.window.showInformationMessage(
+			"You don't have any playlists you can edit yet.",
+		);
+		return undefined;
+	}
+
+	const picked = await vscode.window.showQuickPick(
+		editable.map((playlist) => ({
+			label: playlist.name,
+			description: `${playlist.tracks.total} tracks`,
+			playlist,
+		})),
+		{ title, placeHolder: "Choose a playlist", matchOnDescription: true },
+	);
+	return picked?.playlist;
+}
+
+/**
+ * Moves a track one position up or down in its playlist.
+ * @param item The track as listed under the playlist.
+ * @param direction -1 to move it up, 1 to move it down.
+ */
+async function movePlaylistTrack(item: SpotifyTreeItem, direction: -1 | 1) {
+	const playlist = item.playlist;
+	if (!playlist || item.position === undefined) {
+		return;
+	}
+	const position = item.position;
+	const lastPosition = (playlist.trackCount ?? Infinity) - 1;
+	if (
+		(direction === -1 && position === 0) ||
+		(direction === 1 && position >= lastPosition)
+	) {
+		return;
+	}
+
+	// insert_before counts positions before the move, so down skips one more
+	await moveTracksInPlaylist(
+		playlist,
+		[item],
+		direction === -1 ? position - 1 : position + 2,
+	);
+}
+
+/**
+ * Moves consecutive tracks within their playlist, e.g. after a drag.
+ * @param playlist The playlist node the tracks are listed under.
+ * @param tracks The tracks, in playlist order.
+ * @param insertBefore The position to move them before, as it is before the move.
+ */
+async function moveTracksInPlaylist(
+	playlist: SpotifyTreeItem,
+	tracks: SpotifyTreeItem[],
+	insertBefore: number,
+) {
+	const positions = tracks.map((track) => track.position ?? -1);
+	const first = positions[0];
+	const isRange = positions.every(
+		(position, index) => position === first + index,
+	);
+	if (first < 0 || !isRange) {
+		vscode.window.showInformationMessage(
+			"Only consecutive tracks can be moved together.",
+		);
+		return;
+	}
+	// Moving a range next to itself changes nothing
+	if (insertBefore >= first && insertBefore <= first + tracks.length) {
+		return;
+	}
+
+	try {
+		playlist.snapshotId = await spotifyApi.reorderPlaylistTracks(
+			playlist.spotifyId,
+			first,
+			insertBefore,
+			playlist.snapshotId,
+			tracks.length,
+		);
+		sidebarViews["playlists"].refreshItem(playlist);
+	} catch (error: any) {
+		handleCommandError(error, "Failed to move tracks");
+	}
+}
+
+/**
+ * Adds tracks to a playlist, e.g. after they were dropped on it.
+ * @param playlist The playlist node.
+ * @param tracks The tracks to add.
+ * @param position Optional: Where to insert them, defaults to the end.
+ */
+async function addTracksToPlaylist(
+	playlist: SpotifyTreeItem,
+	tracks: SpotifyTreeItem[],
+	position?: number,
+) {
+	try {
+		let added = 0;
+		// Spotify adds at most 100 tracks per request
+		await runInBatches(
+			`Adding tracks to ${playlist.label}`,
+			tracks,
+			100,
+			async (batch) => {
+				playlist.snapshotId = await spotifyApi.addTracksToPlaylist(
+					playlist.spotifyId,
+					batch.map((track) => track.listedUri),
+					position === undefined ? undefined : position + added,
+				);
+				added += batch.length;
+			},
+		);
+		vscode.window.showInformationMessage(
+			tracks.length === 1
+				? `Added "${tracks[0].label}" to ${playlist.label}`
+				: `Added ${added} tracks to ${playlist.label}`,
+		);
+		// The playlist may not be shown, e.g. when picked from a list
+		sidebarViews["playlists"].refreshPlaylist(playlist.spotifyId);
+	} catch (error: any) {
+		handleCommandError(error, "Failed to add tracks to playlist");
+	}
+}
+
+/**
+ * Plays tracks on a device, e.g. after they were dropped on it.
+ * @param device The device node.
+ * @param tracks The tracks to play, in order.
+ */
+async function playTracksOnDevice(
+	device: SpotifyTreeItem,
+	tracks: SpotifyTreeItem[],
+) {
+	try {
+		await spotifyApi.startPlayback(
+			device.spotifyId,
+			undefined,
+			tracks.map((track) => track.spotifyUri),
+		);
+		// Playback moved to the device, same as when selecting it
+		await applyDefaultVolume(device.spotifyId);
+		vscode.window.showInformationMessage(
+			`Playing ${tracks.length === 1 ? tracks[0].label : `${tracks.length} tracks`} on ${device.label}`,
+		);
+		playerState.requestUpdate();
+	} catch (error: any) {
+		handleCommandError(error, "Failed to play on device");
+	}
+}
+
+/**
+ * Does what clicking a tree item does, e.g. play it or transfer playback to it.
+ * @param item The tree item.
+ */
+async function runItemCommand(item: SpotifyTreeItem) {
+	if (item.command) {
+		await vscode.commands.executeCommand(
+			item.command.command,
+			...(item.command.arguments ?? []),
+		);
+	}
+}
+
+/**
+ * @param item A track, album, artist or playlist.
+ * @returns The item's page in the Spotify web player.
+ */
+function getWebPlayerUrl(item: SpotifyTreeItem): string {
+	// spotify:<type>:<id>, older playlist URIs have the owner in between
+	const [type, id] = item.spotifyUri.split(":").slice(-2);
+	return `https://open.spotify.com/${type}/${id}`;
+}
+
+/**
+ * Lists an album's tracks and plays the album, from the picked track.
+ * @param album The album.
+ */
+async function pickAlbumTrack(album: {
+	id: string;
+	name: string;
+	uri: string;
+}) {
+	const { items: tracks } = await spotifyApi.getAlbumTracks(album.id);
+	const picked = await vscode.window.showQuickPick(
+		[
+			{ label: "$(play) Play Album", uri: undefined as string | undefined },
+			...tracks.map((track) => ({
+				label: track.name,
+				description: track.artists.map((artist) => artist.name).join(", "),
+				uri: track.uri as string | undefined,
+			})),
+		],
+		{ title: album.name, placeHolder: "Pick a track to play the album from" },
+	);
+	if (!picked) {
+		return;
+	}
+	await spotifyApi.startPlayback(undefined, album.uri, undefined, picked.uri);
+	vscode.window.showInformationMessage(`Playing album: ${album.name}`);
+	playerState.requestUpdate();
+}
+
+/**
+ * Lists an artist's albums and singles, then the tracks of the picked one.
+ * @param artist The artist.
+ */
+async function pickArtistAlbum(artist: { id: string; name: string }) {
+	const { items: albums } = await spotifyApi.getArtistAlbums(artist.id);
+	if (albums.length === 0) {
+		vscode.window.showInformationMessage(`${artist.name} has no albums.`);
+		return;
+	}
+	const picked = await vscode.window.showQuickPick(
+		albums.map((album) => ({
+			label: album.name,
+			description: `${album.album_type} · ${album.release_date.slice(0, 4)}`,
+			album,
+		})),
+		{ title: `Albums by ${artist.name}` },
+	);
+	if (picked) {
+		await pickAlbumTrack(picked.album);
+	}
+}
+
+/**
+ * Fetches the current playback state, or raises NoActiveDeviceError when
+ * nothing is playing on any device.
+ */
+async function getActivePlayback(): Promise<SpotifyPlaybackState> {
+	const playbackState = await playerState.refresh();
+	if (!playbackState) {
+		throw new NoActiveDeviceError("No active device found");
+	}
+	return playbackState;
+}
+
+function getVolumeStep(): number {
+	return vscode.workspace
+		.getConfiguration("xilie")
+		.get<number>("volumeStep", 10);
+}
+
+function getDefaultVolume(): number {
+	return vscode.workspace
+		.getConfiguration("xilie")
+		.get<number>("defaultVolume", 50);
+}
+
+/**
+ * Sets the active device's volume based on its current level.
+ * @param compute Returns the new level from the current one.
+ */
+async function changeVolume(compute: (volume: number) => number) {
 	try {
-		const isAuthenticated = await spotifyAuth.isAuthenticated();
-		if (!isAuthenticated) {
-			statusBar.showUnauthenticated();
+		const { device } = await getActivePlayback();
+		if (!device.supports_volume || device.volume_percent === null) {
+			vscode.window.showInformationMessage(
+				`${device.name} doesn't support volume control from Xilie.`,
+			);
 			return;
 		}
 
-		const playbackState = await spotifyApi.getPlaybackState();
-		if (
-			playbackState &&
-			(playbackState.is_playing || playbackState.item.name)
-		) {
-			const trackName = playbackState.item.name;
-			const artistName = playbackState.item.artists
-				.map((artist: any) => artist.name)
-				.join(", ");
-			statusBar.updatePlaybackStatus(
-				trackName,
-				artistName,
-				playbackState.is_playing,
-			);
-		} else {
-			statusBar.showAuthenticated();
+		const volume = Math.min(100, Math.max(0, compute(device.volume_percent)));
+		await spotifyApi.setVolume(volume, device.id);
+		vscode.window.setStatusBarMessage(`Spotify volume: ${volume}%`, 2000);
+		playerState.requestUpdate();
+	} catch (error: any) {
+		handleCommandError(error, "Failed to change volume");
+	}
+}
+
+/**
+ * Sets xilie.defaultVolume on a device playback was just transferred to.
+ * Devices without volume control are left alone.
+ * @param deviceId The ID of the device.
+ */
+async function applyDefaultVolume(deviceId: string) {
+	try {
+		const { devices } = await spotifyApi.getAvailableDevices();
+		const device = devices.find((candidate) => candidate.id === deviceId);
+		if (!device?.supports_volume) {
+			return;
 		}
+		await spotifyApi.setVolume(getDefaultVolume(), deviceId);
 	} catch (error: any) {
-		// Log err but avoid showing frequent messages to the user for periodic updates
-		logger.error(`Error updating status bar: ${error}`);
-		// Fallback to "Ready" state if there's an API error during status bar update
+		// The transfer itself worked, don't report this as a failure
+		logger.warn(`Could not apply default volume: ${error.message}`);
+	}
+}
+
+/**
+ * Seeks relative to the current position, clamped to the current track.
+ * @param offsetMs How far to seek, negative to go back.
+ */
+async function seekBy(offsetMs: number) {
+	try {
+		const playbackState = await getActivePlayback();
+		const duration = playbackState.item?.duration_ms ?? Infinity;
+		const position = Math.min(
+			Math.max(0, playbackState.progress_ms + offsetMs),
+			duration - 1000, // Don't skip to the next track by overshooting
+		);
+		await spotifyApi.seekToPosition(position, playbackState.device.id);
+		playerState.requestUpdate();
+	} catch (error: any) {
+		handleCommandError(error, "Failed to seek");
+	}
+}
+
+/**
+ * Offers a one-click re-consent for the scopes a failed request was missing.
+ * @param error The error raised by SpotifyApi.
+ */
+function promptForScopes(error: InsufficientScopeError) {
+	vscode.window
+		.showWarningMessage(
+			`Xilie needs additional Spotify permissions to do this: ${error.missingScopes.join(", ")}.`,
+			"Grant Access",
+		)
+		.then(async (selection) => {
+			if (selection !== "Grant Access") {
+				return;
+			}
+			try {
+				await spotifyAuth.requestScopes(error.missingScopes);
+				vscode.window.showInformationMessage(
+					"Spotify permissions updated. Please try again.",
+				);
+			} catch (authError: any) {
+				vscode.window.showErrorMessage(
+					`Failed to update Spotify permissions: ${authError.message || authError}`,
+				);
+				logger.error(`Scope upgrade error: ${authError}`);
+			}
+		});
+}
+
+/**
+ * Reports a failed command to the user, reacting to the error type.
+ * @param error The error raised while running the command.
+ * @param failureMessage What failed, e.g. "Failed to play track".
+ */
+function handleCommandError(error: any, failureMessage: string) {
+	logger.error(`${failureMessage}: ${error}`);
+
+	if (error instanceof InsufficientScopeError) {
+		promptForScopes(error);
+	} else if (error instanceof NoActiveDeviceError) {
+		vscode.window
+			.showInformationMessage(
+				"No active Spotify device found. Please open Spotify on one of your devices and try again.",
+				"Open Spotify Web Player",
+			)
+			.then((selection) => {
+				if (selection === "Open Spotify Web Player") {
+					vscode.env.openExternal(vscode.Uri.parse("https://open.spotify.com"));
+				}
+			});
+	} else if (error instanceof PremiumRequiredError) {
+		vscode.window
+			.showInformationMessage(
+				"Spotify Premium is required for playback control. Please upgrade your account.",
+				"Learn More",
+			)
+			.then((selection) => {
+				if (selection === "Learn More") {
+					vscode.env.openExternal(
+						vscode.Uri.parse("https://www.spotify.com/premium/"),
+					);
+				}
+			});
+	} else if (error instanceof RateLimitedError) {
+		vscode.window.showWarningMessage(
+			`${failureMessage}: Spotify is rate limiting requests. Try again in ${error.retryAfter}s.`,
+		);
+	} else if (error instanceof UnauthorizedError) {
+		vscode.window
+			.showInformationMessage(
+				"Your Spotify session has ended. Please sign in again.",
+				"Sign In",
+			)
+			.then((selection) => {
+				if (selection === "Sign In") {
+					vscode.commands.executeCommand("xilie.authenticate");
+				}
+			});
+	} else if (error instanceof NetworkError) {
+		vscode.window.showErrorMessage(
+			`${failureMessage}: Spotify could not be reached. Check your internet connection.`,
+		);
+	} else if (error instanceof VolumeControlDisallowedError) {
+		vscode.window.showInformationMessage(
+			`${failureMessage}: this device doesn't support volume control.`,
+		);
+	} else if (error instanceof NotFoundError) {
+		vscode.window.showErrorMessage(
+			`${failureMessage}: the item is no longer available on Spotify.`,
+		);
+	} else {
+		vscode.window.showErrorMessage(
+			`${failureMessage}: ${error.message || error}`,
+		);
+	}
+}
+
+async function updateUIStatus() {
+	Object.values(sidebarViews).forEach((provider) => provider.refresh());
+}
+
+/**
+ * Renders the playback state polled by PlayerState in the status bar.
+ * @param playbackState The latest playback state.
+ */
+async function updatePlaybackStatusBar(
+	playbackState: SpotifyPlaybackState | null,
+) {
+	const isAuthenticated = await spotifyAuth.isAuthenticated();
+	if (!isAuthenticated) {
+		statusBar.showUnauthenticated();
+		return;
+	}
+
+	if (playbackState?.item) {
+		const trackName = playbackState.item.name;
+		const artistName = playbackState.item.artists
+			.map((artist) => artist.name)
+			.join(", ");
+		statusBar.updatePlaybackStatus(
+			trackName,
+			artistName,
+			playbackState.is_playing,
+			{
+				shuffle: playbackState.shuffle_state,
+				repeat: playbackState.repeat_state,
+				volume: playbackState.device.supports_volume
+					? playbackState.device.volume_percent
+					: null,
+			},
+		);
+		await updateLikeButton(playbackState);
+	} else {
 		statusBar.showAuthenticated();
 	}
 }
+
+/**
+ * Asks for a filter for a sidebar view, prefilled with the current one.
+ * @param key The view's key in `sidebarViews`.
+ * @param prompt What the filter matches, shown below the input.
+ */
+async function filterView(key: string, prompt: string) {
+	const query = await vscode.window.showInputBox({
+		prompt,
+		placeHolder: "Type to filter the loaded items, leave empty to clear",
+		value: sidebarViews[key].filterQuery ?? "",
+	});
+	if (query !== undefined) {
+		setViewFilter(key, query);
+	}
+}
+
+/**
+ * Filters a sidebar view, or shows everything again. The filter is shown
+ * next to the view's title and a button to clear it appears.
+ * @param key The view's key in `sidebarViews`.
+ * @param query The filter, undefined or empty to clear it.
+ */
+function setViewFilter(key: string, query: string | undefined) {
+	const provider = sidebarViews[key];
+	provider.setFilter(query);
+	const filter = provider.filterQuery;
+	const view = sidebarTreeViews[key];
+	if (view) {
+		view.description = filter ? `Filter: ${filter}` : undefined;
+	}
+	vscode.commands.executeCommand(
+		"setContext",
+		`xilie.${key}Filtered`,
+		filter !== undefined,
+	);
+}
+
+/**
+ * Shows whether the current track is in Liked Songs, checking it if needed.
+ * @param playbackState The latest playback state.
+ */
+async function updateLikeButton(playbackState: SpotifyPlaybackState | null) {
+	const track = playbackState?.item;
+	// Episodes can't be liked
+	if (!track || !track.uri.startsWith("spotify:track:")) {
+		statusBar.setLiked(undefined);
+		return;
+	}
+	try {
+		await likedTracks.check([track.id]);
+		if (playerState.current?.item?.id === track.id) {
+			statusBar.setLiked(likedTracks.get(track.id));
+		}
+	} catch (error: any) {
+		logger.warn(`Could not check if track is liked: ${error.message}`);
+	}
+}
@@ -1,155 +1,374 @@
 import { SpotifyAuth } from "./auth";
+import {
+	InsufficientScopeError,
+	InvalidResponseError,
+	NetworkError,
+	NotFoundError,
+	RateLimitedError,
+	SpotifyApiError,
+	UnauthorizedError,
+	toSpotifyApiError,
+} from "./errors";
+import { ResponseCache } from "./cache";
+import { RequestPriority, RequestScheduler } from "./scheduler";
 import { logger } from "../utils/logger";
+import { SpotifyScope } from "../config/settings";
+import {
+	validateAlbumPage,
+	validateAlbumTrackPage,
+	validateArtistTopTracks,
+	validateDevices,
+	validateFollowedArtists,
+	validatePlaybackState,
+	validatePlaylist,
+	validatePlaylistPage,
+	validatePlaylistTrackPage,
+	validateQueue,
+	validateRecentlyPlayed,
+	validateRelatedArtists,
+	validateSavedAlbumPage,
+	validateSavedFlags,
+	validateSavedTrackPage,
+	validateSearchResults,
+	validateSnapshot,
+	validateTrack,
+	validateUser,
+} from "./validation";
 import {
+	SpotifyAlbum,
+	SpotifyArtist,
+	SpotifyCursorPagingObject,
+	SpotifyDevicesResponse,
+	SpotifyFollowedArtistsResponse,
 	SpotifyPlaybackState,
 	SpotifyPagingObject,
+	SpotifyPlayHistory,
 	SpotifyPlaylist,
+	SpotifyPlaylistTrack,
+	SpotifyQueue,
+	SpotifyRepeatState,
+	SpotifySavedAlbum,
+	SpotifySavedTrack,
+	SpotifySearchResults,
+	SpotifySimplifiedTrack,
+	SpotifyTrack,
 	SpotifyUser,
+	SpotifyError,
 } from "../types/spotify";
 
+/**
+ * Options for a single Spotify Web API request.
+ */
+interface FetchOptions {
+	method?: string; // HTTP method, defaults to GET
+	body?: unknown; // Request body for POST/PUT requests
+	scopes?: readonly SpotifyScope[]; // Scopes the endpoint requires
+	priority?: RequestPriority; // Defaults to User for mutations, the instance default otherwise
+	retries?: number;
+	invalidates?: string[]; // Cached endpoint prefixes a mutation makes stale
+}
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+
+/**
+ * How long GET responses are served from the cache, by endpoint.
+ * Endpoints not listed (player state, devices) are always fetched.
+ */
+const CACHE_TTLS: [pattern: RegExp, ttl: number][] = [
+	[/^\/me$/, 60 * MINUTE],
+	[/^\/me\/player\/recently-played\b/, 30 * SECOND],
+	[/^\/me\/playlists\b/, 5 * MINUTE],
+	[/^\/me\/following\b/, 10 * MINUTE],
+	[/^\/me\/tracks\?/, 5 * MINUTE],
+	[/^\/me\/albums\b/, 5 * MINUTE],
+	[/^\/albums\//, 60 * MINUTE],
+	[/^\/playlists\//, 10 * MINUTE],
+	[/^\/artists\//, 60 * MINUTE],
+	[/^\/tracks\//, 60 * MINUTE],
+	[/^\/search\b/, 5 * MINUTE],
+];
+
+// Whether a playlist is public isn't always known, edits declare both scopes
+const PLAYLIST_MODIFY_SCOPES: SpotifyScope[] = [
+	"playlist-modify-public",
+	"playlist-modify-private",
+];
+
+function getCacheTtl(endpoint: string): number {
+	const match = CACHE_TTLS.find(([pattern]) => pattern.test(endpoint));
+	return match ? match[1] : 0;
+}
+
 /**
  * Manages all interactions with the Spotify Web API.
- * It relies on SpotifyAuth to get valid access tokens.
+ * It relies on SpotifyAuth to get valid access tokens, and sends every
+ * request through a RequestScheduler and ResponseCache shared by all instances.
  */
 export class SpotifyApi {
 	private readonly baseUrl = "https://api.spotify.com/v1";
 	private spotifyAuth: SpotifyAuth;
+	private cache: ResponseCache;
+	private scheduler: RequestScheduler;
+	private defaultPriority: RequestPriority;
 
-	constructor(auth: SpotifyAuth) {
+	constructor(
+		auth: SpotifyAuth,
+		cache: ResponseCache = new ResponseCache(),
+		scheduler: RequestScheduler = new RequestScheduler(),
+		defaultPriority: RequestPriority = RequestPriority.Normal,
+	) {
 		this.spotifyAuth = auth;
+		this.cache = cache;
+		this.scheduler = scheduler;
+		this.defaultPriority = defaultPriority;
+	}
+
+	/**
+	 * Returns a client sharing this one's scheduler and cache whose read
+	 * requests run at the given priority, e.g. for polling and tree refreshes.
+	 * @param priority The default priority for read requests.
+	 */
+	public withPriority(priority: RequestPriority): SpotifyApi {
+		return new SpotifyApi(
+			this.spotifyAuth,
+			this.cache,
+			this.scheduler,
+			priority,
+		);
+	}
+
+	/**
+	 * Drops cached responses so the next request goes to Spotify, e.g. when the
+	 * user explicitly refreshes a view.
+	 * @param prefix Optional: Only drop endpoints starting with this prefix.
+	 */
+	public invalidateCache(prefix?: string): void {
+		this.cache.invalidate(prefix);
 	}
 
 	/**
 	 * Generic method for making authenticated requests to the Spotify Web API.
-	 * Handles token retrieval and error responses.
+	 * GET responses are served from the cache while fresh and revalidated with
+	 * their ETag once stale; mutations drop the cache entries they affect.
 	 * @param endpoint The API endpoint (e.g., '/me', '/me/playlists').
-	 * @param method The HTTP method (GET, POST, PUT, DELETE).
-	 * @param body Optional request body for POST/PUT requests.
+	 * @param options Optional: Method, body, required scopes and retry count.
 	 * @returns The JSON response from the Spotify API.
 	 */
 	private async _fetch(
 		endpoint: string,
-		method: string = "GET",
-		body?: any,
-		retries: number = 3,
-	): Promise<any> {
+		options: FetchOptions = {},
+	): Promise<unknown> {
+		const { method = "GET", scopes = [], invalidates = [] } = options;
+
+		// Fail fast if the session is known to lack a required scope
+		const missingScopes = await this.getMissingScopes(scopes);
+		if (missingScopes.length > 0) {
+			throw new InsufficientScopeError(missingScopes);
+		}
+
+		const ttl = method === "GET" ? getCacheTtl(endpoint) : 0;
+		if (ttl === 0) {
+			const { body } = await this._send(endpoint, options);
+			invalidates.forEach((prefix) => this.cache.invalidate(prefix));
+			return body;
+		}
+
+		const account = await this.spotifyAuth.getActiveAccount();
+		const key = `${account?.id ?? "anonymous"}:${endpoint}`;
+		const entry = await this.cache.get(key);
+
+		const revalidate = () =>
+			this.cache.dedupe(key, async (generation) => {
+				const response = await this._send(endpoint, options, entry?.etag);
+				if (response.status === 304 && entry) {
+					this.cache.touch(key, generation);
+					return entry.body;
+				}
+				// Dropped if a mutation invalidated the entry while in flight
+				this.cache.set(key, response.body, ttl, response.etag, generation);
+				return response.body;
+			});
+
+		if (entry && this.cache.isFresh(entry)) {
+			return structuredClone(entry.body);
+		}
+		if (entry?.restored) {
+			// Show what we had last session right away, refresh it behind the scenes
+			revalidate().catch((error) =>
+				logger.warn(`Failed to revalidate ${endpoint}: ${error.message}`),
+			);
+			return structuredClone(entry.body);
+		}
+		// Callers may mutate what they get back, never hand out the cached object
+		return structuredClone(await revalidate());
+	}
+
+	/**
+	 * Sends a request, refreshing the token and retrying as needed.
+	 * @param endpoint The API endpoint.
+	 * @param options Method, body, priority and retry count.
+	 * @param etag Optional: ETag of a cached response to revalidate.
+	 * @returns The status, parsed body and ETag of the response.
+	 */
+	private async _send(
+		endpoint: string,
+		options: FetchOptions,
+		etag?: string,
+	): Promise<{ status: number; body?: unknown; etag?: string }> {
+		const { method = "GET", body, scopes = [], retries = 3 } = options;
+		// Anything that changes state was triggered by the user, let it jump the queue
+		const priority =
+			options.priority ??
+			(method === "GET" ? this.defaultPriority : RequestPriority.User);
 		const baseDelay = 500; // milliseconds
 
+		let lastError: SpotifyApiError | undefined;
+
 		for (let i = 0; i <= retries; i++) {
+			let accessToken: string;
 			try {
-				const accessToken = await this.spotifyAuth.getAccessToken();
+				accessToken = await this.spotifyAuth.getAccessToken();
+			} catch (error: any) {
+				throw new UnauthorizedError(error.message);
+			}
 
-				const headers: Record<string, string> = {
-					Authorization: `Bearer ${accessToken}`,
-					"Content-Type": "application/json",
-				};
+			const headers: Record<string, string> = {
+				Authorization: `Bearer ${accessToken}`,
+				"Content-Type": "application/json",
+			};
+			if (etag) {
+				headers["If-None-Match"] = etag;
+			}
 
-				const requestOptions: RequestInit = {
-					method: method,
-					headers: headers,
-				};
+			const requestOptions: RequestInit = {
+				method: method,
+				headers: headers,
+			};
 
-				if (body) {
-					requestOptions.body = JSON.stringify(body);
-				}
+			if (body) {
+				requestOptions.body = JSON.stringify(body);
+			}
 
-				const response = await fetch(
-					`${this.baseUrl}${endpoint}`,
-					requestOptions,
+			let response: Response;
+			try {
+				response = await this.scheduler.schedule(
+					() => fetch(`${this.baseUrl}${endpoint}`, requestOptions),
+					priority,
 				);
-
-				if (response.status === 401) {
-					// Unauthorized - token might have become invalid
-					if (i === 0) {
-						logger.info("Access token expired, attempting refresh...");
-						await this.spotifyAuth.getAccessToken();
-						continue;
-					}
-					throw new Error(
-						"Unauthorized Spotify API request. Re-authentication needed.",
-					);
+			} catch (error: any) {
+				// fetch only rejects when Spotify couldn't be reached at all
+				lastError = new NetworkError(
+					`Could not reach Spotify: ${error.cause?.message || error.message}`,
+				);
+				if (i < retries) {
+					const delay = baseDelay * Math.pow(2, i);
+					logger.warn(`${lastError.message}. Retrying in ${delay}ms...`);
+					await new Promise((resolve) => setTimeout(resolve, delay));
+					continue;
 				}
+				break;
+			}
+
+			if (response.status === 304) {
+				// The cached response is still current
+				return { status: 304 };
+			}
 
-				if (!response.ok) {
-					// Handle specific error cases
-					// if (response.status === 404) {
-					// 	throw new Error(
-					// 		"Spotify resource not found. The requested item may have been removed or is not available.",
-					// 	);
-					// }
-
-					// if (response.status === 403) {
-					// 	throw new Error(
-					// 		"Access forbidden. You may not have the required Spotify Premium subscription or permissions.",
-					// 	);
-					// }
-
-					if (response.status === 429) {
-						const retryAfter = response.headers.get("Retry-After");
-						const delay = retryAfter
-							? parseInt(retryAfter) * 1000
-							: baseDelay * Math.pow(2, i);
-						if (i < retries) {
-							logger.warn(`Rate limited. Retrying in ${delay}ms...`);
-							await new Promise((resolve) => setTimeout(resolve, delay));
-							continue;
+			if (response.ok) {
+				// Player endpoints (play, pause, shuffle, seek...) answer with
+				// 204 No Content or an empty 200, sometimes even a non-JSON body
+				const text = await response.text();
+				let parsed: unknown = {};
+				if (response.status !== 204 && text) {
+					try {
+						parsed = JSON.parse(text);
+					} catch {
+						if (method === "GET") {
+							throw new InvalidResponseError(
+								`Spotify returned a non-JSON response for ${endpoint}`,
+								response.status,
+							);
 						}
-						throw new Error(
-							"Spotify API rate limit exceeded. Please try again later.",
-						);
 					}
+				}
 
-					// Check if this is a retryable error (e.g., 5xx)
-					const isRetryable = response.status >= 500;
+				return {
+					status: response.status,
+					body: parsed,
+					etag: response.headers.get("ETag") ?? undefined,
+				};
+			}
 
-					if (isRetryable && i < retries) {
-						const delay = baseDelay * Math.pow(2, i);
-						logger.warn(
-							`Spotify API request failed with status ${response.status}. Retrying in ${delay}ms...`,
-						);
-						await new Promise((resolve) => setTimeout(resolve, delay));
-						continue;
-					}
+			const errorBody = (await response.json().catch(() => undefined)) as
+				| Partial<SpotifyError>
+				| undefined;
+			const retryAfterHeader = response.headers.get("Retry-After");
+			const retryAfter = retryAfterHeader
+				? parseInt(retryAfterHeader, 10)
+				: undefined;
 
-					// Non-retryable error or last attempt. Read body once and throw.
-					const errorBody = await response.json().catch(() => response.text());
-					throw new Error(
-						`Spotify API request failed: ${response.statusText || response.status}. Details: ${JSON.stringify(errorBody)}`,
-					);
-				}
+			if (response.status === 401 && i === 0) {
+				// Unauthorized - token might have become invalid
+				logger.info("Access token expired, attempting refresh...");
+				continue;
+			}
 
-				// Handle special cases where no content is returned
-				// e.g., pause, play, or player endpoints
-				// These endpoints return 204 No Content or similar responses.
-				if (
-					response.status === 204 ||
-					response.url.endsWith("/pause") ||
-					response.url.endsWith("/play") ||
-					response.url.endsWith("/next") ||
-					response.url.endsWith("/previous")
-				) {
-					return {};
-				}
+			if (
+				response.status === 403 &&
+				/scope/i.test(errorBody?.error?.message ?? "")
+			) {
+				// Token predates a scope we declare, or granted scopes weren't recorded
+				const missing = await this.getMissingScopes(scopes);
+				throw new InsufficientScopeError(missing.length > 0 ? missing : scopes);
+			}
 
-				return await response.json();
-			} catch (error: any) {
-				if (error.message.includes("No active device found")) {
-					throw new Error(error.message); // Do not retry if no active device
-				} else {
-					if (i < retries) {
-						const delay = baseDelay * Math.pow(2, i);
-						logger.warn(
-							`Error in Spotify API _fetch: ${error.message}. Retrying in ${delay}ms...`,
-						);
-						await new Promise((resolve) => setTimeout(resolve, delay));
-					} else {
-						logger.error(
-							`All retries failed. Error: ${error.message || error}`,
-						);
-					}
-				}
+			lastError = toSpotifyApiError(response.status, errorBody, retryAfter);
+
+			if (lastError instanceof RateLimitedError) {
+				// Hold back every caller, even when this request gives up now.
+				// A retry is queued behind the cooldown
+				this.scheduler.cooldown(retryAfter ?? Math.pow(2, i));
 			}
+
+			// Only throttling and server errors are worth retrying
+			const isRetryable =
+				lastError instanceof RateLimitedError || response.status >= 500;
+			if (!isRetryable || i === retries) {
+				break;
+			}
+
+			if (lastError instanceof RateLimitedError) {
+				continue;
+			}
+
+			const delay = baseDelay * Math.pow(2, i);
+			logger.warn(
+				`Spotify API request failed with status ${response.status}. Retrying in ${delay}ms...`,
+			);
+			await new Promise((resolve) => setTimeout(resolve, delay));
 		}
+
+		logger.error(`Spotify API ${method} ${endpoint} failed: ${lastError}`);
+		throw lastError ?? new SpotifyApiError("Spotify API request failed");
+	}
+
+	/**
+	 * Returns the scopes from the list that the active session wasn't granted.
+	 * Sessions whose granted scopes weren't recorded are assumed to have all.
+	 * @param scopes The scopes an endpoint requires.
+	 */
+	private async getMissingScopes(
+		scopes: readonly SpotifyScope[],
+	): Promise<SpotifyScope[]> {
+		if (scopes.length === 0) {
+			return [];
+		}
+		const granted = await this.spotifyAuth.getGrantedScopes();
+		if (granted.length === 0) {
+			return [];
+		}
+		return scopes.filter((scope) => !granted.includes(scope));
 	}
 
 	/**
@@ -157,12 +376,30 @@ export class SpotifyApi {
 	 * @returns The user's profile object.
 	 */
 	public async getCurrentUserProfile(): Promise<SpotifyUser> {
-		return this._fetch("/me");
+		return validateUser(
+			await this._fetch("/me", { scopes: ["user-read-private"] }),
+		);
 	}
 
 	/**
-	 * Fetches a list of the current user's playlists.
-	 * @param limit The maximum number of playlists to return.
+	 * The market catalog requests are made for: the user's country, so
+	 * regional releases are listed and tracks that can't be played there come
+	 * back with `is_playable` false. Spotify falls back to the country of the
+	 * access token when the profile doesn't say.
+	 */
+	private async getMarket(): Promise<string> {
+		try {
+			const { country } = await this.getCurrentUserProfile();
+			return country || "from_token";
+		} catch (error: any) {
+			logger.debug(`Using the token's market: ${error.message || error}`);
+			return "from_token";
+		}
+	}
+
+	/**
+	 * Fetches one page of the current user's playlists.
+	 * @param limit The maximum number of playlists to return (at most 50).
 	 * @param offset The index of the first playlist to return.
 	 * @returns An object containing the playlists.
 	 */
@@ -170,38 +407,32 @@ export class SpotifyApi {
 		limit: number = 50,
 		offset: number = 0,
 	): Promise<SpotifyPagingObject<SpotifyPlaylist>> {
-		let res = await this._fetch(
-			`/me/playlists?limit=${limit}&offset=${offset}`,
+		return validatePlaylistPage(
+			await this._fetch(`/me/playlists?limit=${limit}&offset=${offset}`, {
+				scopes: ["playlist-read-private", "playlist-read-collaborative"],
+			}),
 		);
+	}
 
-		// Safely handle pagination
-		try {
-			let next = res;
-			while (next && next.next) {
-				try {
-					next = await this._fetch(next.next.slice(26));
-					if (next && next.items) {
-						res.items = [...res.items, ...next.items];
-					} else {
-						break;
-					}
-				} catch (error) {
-					// Stop pagination if request fails
-					break;
-				}
-			}
-		} catch (error) {
-			// If pagination fails entirely, just return what we have
-			logger.warn("Pagination failed for playlists, returning partial results");
-		}
-
-		return res;
+	/**
+	 * Fetches all of the current user's playlists, e.g. to pick one from.
+	 * Prefer `getUserPlaylists` where a page at a time will do.
+	 * @returns The playlists, in the user's order.
+	 */
+	public async getAllUserPlaylists(): Promise<SpotifyPlaylist[]> {
+		const playlists: SpotifyPlaylist[] = [];
+		let page: SpotifyPagingObject<SpotifyPlaylist>;
+		do {
+			page = await this.getUserPlaylists(50, playlists.length);
+			playlists.push(...page.items);
+		} while (page.next && page.items.length > 0);
+		return playlists;
 	}
 
 	/**
-	 * Fetches the tracks for a specific playlist.
+	 * Fetches one page of a playlist's tracks.
 	 * @param playlistId The ID of the playlist.
-	 * @param limit The maximum number of tracks to return.
+	 * @param limit The maximum number of tracks to return (at most 50).
 	 * @param offset The index of the first track to return.
 	 * @returns An object containing the playlist tracks.
 	 */
@@ -209,84 +440,236 @@ export class SpotifyApi {
 		playlistId: string,
 		limit: number = 50,
 		offset: number = 0,
-	): Promise<any> {
-		let res = await this._fetch(
-			`/playlists/${playlistId}/tracks?limit=${limit}&offset=${offset}`,
+	): Promise<SpotifyPagingObject<SpotifyPlaylistTrack>> {
+		const market = await this.getMarket();
+		return validatePlaylistTrackPage(
+			await this._fetch(
+				`/playlists/${playlistId}/tracks?limit=${limit}&offset=${offset}&market=${market}`,
+				{ scopes: ["playlist-read-private"] },
+			),
 		);
+	}
 
-		// Safely handle pagination
-		try {
-			let next = res;
-			while (next && next.next) {
-				try {
-					next = await this._fetch(next.next.slice(26));
-					if (next && next.items) {
-						res.items = [...res.items, ...next.items];
-					} else {
-						break;
-					}
-				} catch (error) {
-					// Stop pagination if request fails
-					break;
-				}
-			}
-		} catch (error) {
-			// If pagination fails entirely, just return what we have
-			logger.warn(
-				"Pagination failed for playlist tracks, returning partial results",
-			);
-		}
+	/**
+	 * Creates a playlist owned by the current user.
+	 * @param name The name of the playlist.
+	 * @param details Optional: The description, and whether the playlist is
+	 * public (defaults to private).
+	 * @returns The new playlist.
+	 */
+	public async createPlaylist(
+		name: string,
+		details: { description?: string; public?: boolean } = {},
+	): Promise<SpotifyPlaylist> {
+		const user = await this.getCurrentUserProfile();
+		const isPublic = details.public ?? false;
+		return validatePlaylist(
+			await this._fetch(`/users/${encodeURIComponent(user.id)}/playlists`, {
+				method: "POST",
+				body: {
+					name,
+					description: details.description ?? "",
+					public: isPublic,
+				},
+				scopes: [
+					isPublic ? "playlist-modify-public" : "playlist-modify-private",
+				],
+				invalidates: ["/me/playlists"],
+			}),
+		);
+	}
 
-		return res;
+	/**
+	 * Changes a playlist's name, description or visibility.
+	 * @param playlistId The ID of the playlist.
+	 * @param details The details to change, the others are kept.
+	 */
+	public async changePlaylistDetails(
+		playlistId: string,
+		details: { name?: string; description?: string; public?: boolean },
+	): Promise<void> {
+		await this._fetch(`/playlists/${playlistId}`, {
+			method: "PUT",
+			body: details,
+			scopes: PLAYLIST_MODIFY_SCOPES,
+			invalidates: [`/playlists/${playlistId}`, "/me/playlists"],
+		});
 	}
 
 	/**
-	 * Fetches the recently played tracks for the current user.
-	 * @returns An object containing the recently played tracks.
+	 * Adds tracks to a playlist.
+	 * @param playlistId The ID of the playlist.
+	 * @param uris The Spotify URIs of the tracks (at most 100).
+	 * @param position Optional: Where to insert the tracks, defaults to the end.
+	 * @returns The playlist's new snapshot ID.
 	 */
-	public async getRecentTracks(limit: number = 50): Promise<any> {
-		// Recently played endpoint uses cursor-based pagination, not offset
-		const res = await this._fetch(`/me/player/recently-played?limit=${limit}`);
+	public async addTracksToPlaylist(
+		playlistId: string,
+		uris: string[],
+		position?: number,
+	): Promise<string> {
+		return validateSnapshot(
+			await this._fetch(`/playlists/${playlistId}/tracks`, {
+				method: "POST",
+				body: { uris, position },
+				scopes: PLAYLIST_MODIFY_SCOPES,
+				invalidates: [`/playlists/${playlistId}`, "/me/playlists"],
+			}),
+		);
+	}
+
+	/**
+	 * Removes every occurrence of tracks from a playlist.
+	 * @param playlistId The ID of the playlist.
+	 * @param uris The Spotify URIs of the tracks (at most 100).
+	 * @param snapshotId Optional: The version of the playlist to remove them from.
+	 * @returns The playlist's new snapshot ID.
+	 */
+	public async removeTracksFromPlaylist(
+		playlistId: string,
+		uris: string[],
+		snapshotId?: string,
+	): Promise<string> {
+		return validateSnapshot(
+			await this._fetch(`/playlists/${playlistId}/tracks`, {
+				method: "DELETE",
+				body: {
+					tracks: uris.map((uri) => ({ uri })),
+					snapshot_id: snapshotId,
+				},
+				scopes: PLAYLIST_MODIFY_SCOPES,
+				invalidates: [`/playlists/${playlistId}`, "/me/playlists"],
+			}),
+		);
+	}
+
+	/**
+	 * Moves a range of tracks within a playlist.
+	 * @param playlistId The ID of the playlist.
+	 * @param rangeStart The position of the first track to move.
+	 * @param insertBefore The position to move the tracks before, as it is
+	 * before the move.
+	 * @param snapshotId Optional: The version of the playlist the positions
+	 * refer to, so concurrent edits don't move the wrong tracks.
+	 * @param rangeLength Optional: How many tracks to move, defaults to 1.
+	 * @returns The playlist's new snapshot ID.
+	 */
+	public async reorderPlaylistTracks(
+		playlistId: string,
+		rangeStart: number,
+		insertBefore: number,
+		snapshotId?: string,
+		rangeLength: number = 1,
+	): Promise<string> {
+		return validateSnapshot(
+			await this._fetch(`/playlists/${playlistId}/tracks`, {
+				method: "PUT",
+				body: {
+					range_start: rangeStart,
+					insert_before: insertBefore,
+					range_length: rangeLength,
+					snapshot_id: snapshotId,
+				},
+				scopes: PLAYLIST_MODIFY_SCOPES,
+				invalidates: [`/playlists/${playlistId}`, "/me/playlists"],
+			}),
+		);
+	}
 
-		// For recently played, we typically don't need to paginate through all results
-		// as users usually only care about the most recent tracks
-		return res;
+	/**
+	 * Fetches one page of the current user's recently played tracks, most
+	 * recent first. Paged with cursors rather than offsets.
+	 * @param limit The maximum number of tracks to return (at most 50).
+	 * @param before Optional: The `before` cursor of the previous page, to
+	 * continue with older plays.
+	 * @returns An object containing the recently played tracks.
+	 */
+	public async getRecentTracks(
+		limit: number = 50,
+		before?: string,
+	): Promise<SpotifyCursorPagingObject<SpotifyPlayHistory>> {
+		const cursor = before ? `&before=${encodeURIComponent(before)}` : "";
+		return validateRecentlyPlayed(
+			await this._fetch(`/me/player/recently-played?limit=${limit}${cursor}`, {
+				scopes: ["user-read-recently-played"],
+			}),
+		);
 	}
 
 	/**
-	 * Fetches the artists followed by the current user.
+	 * Fetches one page of the artists followed by the current user, by name.
+	 * Paged with cursors rather than offsets.
+	 * @param limit The maximum number of artists to return (at most 50).
+	 * @param after Optional: The `after` cursor of the previous page.
 	 * @returns An object containing the followed artists.
 	 */
 	public async getFollowedArtists(
 		limit: number = 50,
-		offset: number = 0,
-	): Promise<any> {
-		const res = await this._fetch(`/me/following?type=artist&limit=${limit}`);
+		after?: string,
+	): Promise<SpotifyFollowedArtistsResponse> {
+		const cursor = after ? `&after=${encodeURIComponent(after)}` : "";
+		return validateFollowedArtists(
+			await this._fetch(`/me/following?type=artist&limit=${limit}${cursor}`, {
+				scopes: ["user-follow-read"],
+			}),
+		);
+	}
 
-		// Safely handle pagination
-		try {
-			let next = res;
-			while (next && next.next) {
-				try {
-					next = await this._fetch(next.next.slice(26));
-					if (next && next.items) {
-						res.items = [...res.items, ...next.items];
-					} else {
-						break;
-					}
-				} catch (error) {
-					// Stop pagination if request fails
-					break;
-				}
-			}
-		} catch (error) {
-			// If pagination fails entirely, just return what we have
-			logger.warn(
-				"Pagination failed for followed artists, returning partial results",
-			);
-		}
+	/**
+	 * Follows artists for the current user.
+	 * @param artistIds The IDs of the artists (at most 50).
+	 */
+	public async followArtists(artistIds: string[]): Promise<void> {
+		await this._fetch(`/me/following?type=artist&ids=${artistIds.join(",")}`, {
+			method: "PUT",
+			scopes: ["user-follow-modify"],
+			invalidates: ["/me/following"],
+		});
+	}
 
-		return res;
+	/**
+	 * Unfollows artists for the current user.
+	 * @param artistIds The IDs of the artists (at most 50).
+	 */
+	public async unfollowArtists(artistIds: string[]): Promise<void> {
+		await this._fetch(`/me/following?type=artist&ids=${artistIds.join(",")}`, {
+			method: "DELETE",
+			scopes: ["user-follow-modify"],
+			invalidates: ["/me/following"],
+		});
+	}
+
+	/**
+	 * Fetches one page of an artist's albums, newest first within each group.
+	 * @param artistId The ID of the artist.
+	 * @param includeGroups Which kinds of releases to return, comma separated:
+	 * album, single, appears_on, compilation.
+	 * @param limit The maximum number of albums to return (at most 50).
+	 * @param offset The index of the first album to return.
+	 */
+	public async getArtistAlbums(
+		artistId: string,
+		includeGroups: string = "album,single",
+		limit: number = 50,
+		offset: number = 0,
+	): Promise<SpotifyPagingObject<SpotifyAlbum>> {
+		const market = await this.getMarket();
+		return validateAlbumPage(
+			await this._fetch(
+				`/artists/${artistId}/albums?include_groups=${includeGroups}&limit=${limit}&offset=${offset}&market=${market}`,
+			),
+		);
+	}
+
+	/**
+	 * Fetches artists similar to an artist, based on what listeners play.
+	 * @param artistId The ID of the artist.
+	 */
+	public async getRelatedArtists(artistId: string): Promise<SpotifyArtist[]> {
+		const response = validateRelatedArtists(
+			await this._fetch(`/artists/${artistId}/related-artists`),
+		);
+		return response.artists;
 	}
 
 	/**
@@ -294,10 +677,11 @@ export class SpotifyApi {
 	 * @param artistId The ID of the artist.
 	 * @returns An object containing the artist's top tracks.
 	 */
-	public async getArtistTopTracks(artistId: string): Promise<any> {
-		// The country parameter is required for this endpoint.
-		const response = await this._fetch(
-			`/artists/${artistId}/top-tracks?country=US`,
+	public async getArtistTopTracks(artistId: string): Promise<SpotifyTrack[]> {
+		// The market parameter is required for this endpoint.
+		const market = await this.getMarket();
+		const response = validateArtistTopTracks(
+			await this._fetch(`/artists/${artistId}/top-tracks?market=${market}`),
 		);
 		return response.tracks;
 	}
@@ -306,8 +690,119 @@ export class SpotifyApi {
 	 * Fetches details for a specific track.
 	 * @param trackId The ID of the track.
 	 */
-	public async getTrack(trackId: string): Promise<any> {
-		return this._fetch(`/tracks/${trackId}`);
+	public async getTrack(trackId: string): Promise<SpotifyTrack> {
+		const market = await this.getMarket();
+		return validateTrack(
+			await this._fetch(`/tracks/${trackId}?market=${market}`),
+		);
+	}
+
+	/**
+	 * Removes a playlist from the user's library. Unfollowing a playlist the
+	 * user owns is how Spotify deletes it.
+	 * @param playlistId The ID of the playlist.
+	 */
+	public async unfollowPlaylist(playlistId: string): Promise<void> {
+		await this._fetch(`/playlists/${playlistId}/followers`, {
+			method: "DELETE",
+			scopes: PLAYLIST_MODIFY_SCOPES,
+			invalidates: ["/me/playlists"],
+		});
+	}
+
+	/**
+	 * Fetches one page of the user's Liked Songs, most recently saved first.
+	 * @param limit The maximum number of tracks to return (at most 50).
+	 * @param offset The index of the first track to return.
+	 */
+	public async getSavedTracks(
+		limit: number = 50,
+		offset: number = 0,
+	): Promise<SpotifyPagingObject<SpotifySavedTrack>> {
+		const market = await this.getMarket();
+		return validateSavedTrackPage(
+			await this._fetch(
+				`/me/tracks?limit=${limit}&offset=${offset}&market=${market}`,
+				{ scopes: ["user-library-read"] },
+			),
+		);
+	}
+
+	/**
+	 * Fetches one page of the albums saved in the user's library.
+	 * @param limit The maximum number of albums to return (at most 50).
+	 * @param offset The index of the first album to return.
+	 */
+	public async getSavedAlbums(
+		limit: number = 50,
+		offset: number = 0,
+	): Promise<SpotifyPagingObject<SpotifySavedAlbum>> {
+		const market = await this.getMarket();
+		return validateSavedAlbumPage(
+			await this._fetch(
+				`/me/albums?limit=${limit}&offset=${offset}&market=${market}`,
+				{ scopes: ["user-library-read"] },
+			),
+		);
+	}
+
+	/**
+	 * Fetches one page of an album's tracks.
+	 * @param albumId The ID of the album.
+	 * @param limit The maximum number of tracks to return (at most 50).
+	 * @param offset The index of the first track to return.
+	 */
+	public async getAlbumTracks(
+		albumId: string,
+		limit: number = 50,
+		offset: number = 0,
+	): Promise<SpotifyPagingObject<SpotifySimplifiedTrack>> {
+		const market = await this.getMarket();
+		return validateAlbumTrackPage(
+			await this._fetch(
+				`/albums/${albumId}/tracks?limit=${limit}&offset=${offset}&market=${market}`,
+			),
+		);
+	}
+
+	/**
+	 * Checks which tracks are saved in the user's Liked Songs.
+	 * @param trackIds The IDs of the tracks to check (at most 50).
+	 * @returns One flag per track, in the same order.
+	 */
+	public async checkSavedTracks(trackIds: string[]): Promise<boolean[]> {
+		if (trackIds.length === 0) {
+			return [];
+		}
+		return validateSavedFlags(
+			await this._fetch(`/me/tracks/contains?ids=${trackIds.join(",")}`, {
+				scopes: ["user-library-read"],
+			}),
+		);
+	}
+
+	/**
+	 * Saves tracks to the user's Liked Songs.
+	 * @param trackIds The IDs of the tracks to save (at most 50).
+	 */
+	public async saveTracks(trackIds: string[]): Promise<void> {
+		await this._fetch(`/me/tracks?ids=${trackIds.join(",")}`, {
+			method: "PUT",
+			scopes: ["user-library-modify"],
+			invalidates: ["/me/tracks"],
+		});
+	}
+
+	/**
+	 * Removes tracks from the user's Liked Songs.
+	 * @param trackIds The IDs of the tracks to remove (at most 50).
+	 */
+	public async removeSavedTracks(trackIds: string[]): Promise<void> {
+		await this._fetch(`/me/tracks?ids=${trackIds.join(",")}`, {
+			method: "DELETE",
+			scopes: ["user-library-modify"],
+			invalidates: ["/me/tracks"],
+		});
 	}
 
 	/**
@@ -315,62 +810,163 @@ export class SpotifyApi {
 	 * @param deviceId Optional: The ID of the device to start playback on.
 	 * @param contextUri Optional: Spotify URI for the context to play (e.g., album, playlist, artist).
 	 * @param uris Optional: A list of track URIs to play.
+	 * @param offsetUri Optional: The track of the context or list to start at.
 	 */
 	public async startPlayback(
 		deviceId?: string,
 		contextUri?: string,
 		uris?: string[],
-	): Promise<any> {
-		const body: any = {};
+		offsetUri?: string,
+	): Promise<void> {
+		const body: {
+			context_uri?: string;
+			uris?: string[];
+			offset?: { uri: string };
+		} = {};
 		if (contextUri) {
 			body.context_uri = contextUri;
 		}
 		if (uris) {
 			body.uris = uris;
 		}
+		if (offsetUri) {
+			body.offset = { uri: offsetUri };
+		}
 
 		let endpoint = "/me/player/play";
 		if (deviceId) {
 			endpoint += `?device_id=${deviceId}`;
 		}
 
-		return this._fetch(endpoint, "PUT", body);
+		await this._fetch(endpoint, {
+			method: "PUT",
+			body,
+			scopes: ["user-modify-playback-state"],
+			invalidates: ["/me/player/recently-played"],
+		});
 	}
 
 	/**
 	 * Pauses playback on the user's current device.
 	 * @param deviceId Optional: The ID of the device to pause playback on.
 	 */
-	public async pausePlayback(deviceId?: string): Promise<any> {
+	public async pausePlayback(deviceId?: string): Promise<void> {
 		let endpoint = "/me/player/pause";
 		if (deviceId) {
 			endpoint += `?device_id=${deviceId}`;
 		}
-		return this._fetch(endpoint, "PUT");
+		await this._fetch(endpoint, {
+			method: "PUT",
+			scopes: ["user-modify-playback-state"],
+		});
 	}
 
 	/**
 	 * Skips to the next track in the user's queue.
 	 * @param deviceId Optional: The ID of the device to skip on.
 	 */
-	public async skipToNextTrack(deviceId?: string): Promise<any> {
+	public async skipToNextTrack(deviceId?: string): Promise<void> {
 		let endpoint = "/me/player/next";
 		if (deviceId) {
 			endpoint += `?device_id=${deviceId}`;
 		}
-		return this._fetch(endpoint, "POST");
+		await this._fetch(endpoint, {
+			method: "POST",
+			scopes: ["user-modify-playback-state"],
+			invalidates: ["/me/player/recently-played"],
+		});
 	}
 
 	/**
 	 * Skips to the previous track in the user's queue.
 	 * @param deviceId Optional: The ID of the device to skip on.
 	 */
-	public async skipToPreviousTrack(deviceId?: string): Promise<any> {
+	public async skipToPreviousTrack(deviceId?: string): Promise<void> {
 		let endpoint = "/me/player/previous";
 		if (deviceId) {
 			endpoint += `?device_id=${deviceId}`;
 		}
-		return this._fetch(endpoint, "POST");
+		await this._fetch(endpoint, {
+			method: "POST",
+			scopes: ["user-modify-playback-state"],
+			invalidates: ["/me/player/recently-played"],
+		});
+	}
+
+	/**
+	 * Turns shuffle on or off.
+	 * @param state Whether to shuffle.
+	 * @param deviceId Optional: The ID of the device to target.
+	 */
+	public async setShuffle(state: boolean, deviceId?: string): Promise<void> {
+		let endpoint = `/me/player/shuffle?state=${state}`;
+		if (deviceId) {
+			endpoint += `&device_id=${deviceId}`;
+		}
+		await this._fetch(endpoint, {
+			method: "PUT",
+			scopes: ["user-modify-playback-state"],
+		});
+	}
+
+	/**
+	 * Sets the repeat mode.
+	 * @param state "track" repeats the current track, "context" the current
+	 * album or playlist, "off" turns repeat off.
+	 * @param deviceId Optional: The ID of the device to target.
+	 */
+	public async setRepeatMode(
+		state: SpotifyRepeatState,
+		deviceId?: string,
+	): Promise<void> {
+		let endpoint = `/me/player/repeat?state=${state}`;
+		if (deviceId) {
+			endpoint += `&device_id=${deviceId}`;
+		}
+		await this._fetch(endpoint, {
+			method: "PUT",
+			scopes: ["user-modify-playback-state"],
+		});
+	}
+
+	/**
+	 * Seeks to a position in the current track.
+	 * @param positionMs The position in milliseconds. Past the end of the
+	 * track skips to the next one.
+	 * @param deviceId Optional: The ID of the device to target.
+	 */
+	public async seekToPosition(
+		positionMs: number,
+		deviceId?: string,
+	): Promise<void> {
+		let endpoint = `/me/player/seek?position_ms=${Math.max(0, Math.round(positionMs))}`;
+		if (deviceId) {
+			endpoint += `&device_id=${deviceId}`;
+		}
+		await this._fetch(endpoint, {
+			method: "PUT",
+			scopes: ["user-modify-playback-state"],
+		});
+	}
+
+	/**
+	 * Sets the playback volume.
+	 * @param volumePercent The volume, from 0 to 100.
+	 * @param deviceId Optional: The ID of the device to target.
+	 */
+	public async setVolume(
+		volumePercent: number,
+		deviceId?: string,
+	): Promise<void> {
+		const volume = Math.min(100, Math.max(0, Math.round(volumePercent)));
+		let endpoint = `/me/player/volume?volume_percent=${volume}`;
+		if (deviceId) {
+			endpoint += `&device_id=${deviceId}`;
+		}
+		await this._fetch(endpoint, {
+			method: "PUT",
+			scopes: ["user-modify-playback-state"],
+		});
 	}
 
 	/**
@@ -379,9 +975,16 @@ export class SpotifyApi {
 	 */
 	public async getPlaybackState(): Promise<SpotifyPlaybackState | null> {
 		try {
-			return await this._fetch("/me/player");
+			const state = await this._fetch("/me/player", {
+				scopes: ["user-read-playback-state"],
+			});
+			// 204 No Content (parsed as {}) means nothing is playing anywhere
+			if (!state || !(state as Partial<SpotifyPlaybackState>).device) {
+				return null;
+			}
+			return validatePlaybackState(state);
 		} catch (error: any) {
-			if (error.message.includes("404")) {
+			if (error instanceof NotFoundError) {
 				// No active device or playback
 				return null;
 			}
@@ -393,8 +996,40 @@ export class SpotifyApi {
 	 * Fetches a list of the user's available devices.
 	 * @returns An object containing the available devices.
 	 */
-	public async getAvailableDevices(): Promise<any> {
-		return this._fetch("/me/player/devices");
+	public async getAvailableDevices(): Promise<SpotifyDevicesResponse> {
+		return validateDevices(
+			await this._fetch("/me/player/devices", {
+				scopes: ["user-read-playback-state"],
+			}),
+		);
+	}
+
+	/**
+	 * Fetches the user's play queue.
+	 * @returns The currently playing item and the items queued after it.
+	 */
+	public async getQueue(): Promise<SpotifyQueue> {
+		return validateQueue(
+			await this._fetch("/me/player/queue", {
+				scopes: ["user-read-playback-state"],
+			}),
+		);
+	}
+
+	/**
+	 * Adds a track or episode to the end of the user's queue.
+	 * @param uri The Spotify URI of the track or episode.
+	 * @param deviceId Optional: The ID of the device to target.
+	 */
+	public async addToQueue(uri: string, deviceId?: string): Promise<void> {
+		let endpoint = `/me/player/queue?uri=${encodeURIComponent(uri)}`;
+		if (deviceId) {
+			endpoint += `&device_id=${deviceId}`;
+		}
+		await this._fetch(endpoint, {
+			method: "POST",
+			scopes: ["user-modify-playback-state"],
+		});
 	}
 
 	/**
@@ -405,10 +1040,14 @@ export class SpotifyApi {
 	public async transferPlayback(
 		deviceId: string,
 		play: boolean = true,
-	): Promise<any> {
-		await this._fetch("/me/player", "PUT", {
-			device_ids: [deviceId],
-			play: play,
+	): Promise<void> {
+		await this._fetch("/me/player", {
+			method: "PUT",
+			body: {
+				device_ids: [deviceId],
+				play: play,
+			},
+			scopes: ["user-modify-playback-state"],
 		});
 	}
 
@@ -425,14 +1064,17 @@ export class SpotifyApi {
 		type: string = "track,artist,playlist",
 		limit: number = 20,
 		offset: number = 0,
-	): Promise<any> {
+	): Promise<SpotifySearchResults> {
 		logger.debug(
 			`Searching for ${query} (type: ${type}, limit: ${limit}, offset: ${offset})`,
 		);
 		const encodedQuery = encodeURIComponent(query);
 		logger.debug(`Encoded query: ${encodedQuery}`);
-		return this._fetch(
-			`/search?q=${encodedQuery}&type=${type}&limit=${limit}&offset=${offset}`,
+		const market = await this.getMarket();
+		return validateSearchResults(
+			await this._fetch(
+				`/search?q=${encodedQuery}&type=${type}&limit=${limit}&offset=${offset}&market=${market}`,
+			),
 		);
 	}
 }
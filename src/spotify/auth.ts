@@ -1,25 +1,70 @@
 import * as vscode from "vscode";
 import crypto from "crypto";
 import { logger } from "../utils/logger";
+import { LoopbackServer } from "./loopback";
+import {
+	DEFAULT_CLIENT_ID,
+	SETTINGS,
+	getSpotifyClient,
+} from "../config/settings";
+import { SpotifyUser } from "../types/spotify";
+
+/**
+ * Raised when Spotify rejects the refresh token itself, as opposed to a
+ * transient failure (network, 5xx) where the stored tokens are still good.
+ */
+class InvalidRefreshTokenError extends Error {}
+
+/**
+ * A Spotify account with tokens stored in SecretStorage.
+ */
+export interface SpotifyAccount {
+	id: string; // Spotify user ID
+	label: string; // Display name shown in the account picker
+}
 
 /**
  * Manages Spotify OAuth 2.0 Authorization Code flow with PKCE (Proof Key for Code Exchange).
  * Uses PKCE-only approach without client secret for enhanced security.
  * Handles authentication, token storage, and token refreshing.
+ * Several accounts can be signed in at once; each keeps its own tokens under
+ * keys suffixed with the Spotify user ID, and API calls use the active one.
  */
 export class SpotifyAuth {
 	private static readonly ACCESS_TOKEN_KEY = "spotifyAccessToken";
 	private static readonly REFRESH_TOKEN_KEY = "spotifyRefreshToken";
 	private static readonly TOKEN_EXPIRY_KEY = "spotifyTokenExpiry";
-
-	private readonly CLIENT_ID = "b61c64d6e5574e379e31dce5002d845c";
+	private static readonly TOKEN_SCOPES_KEY = "spotifyTokenScopes";
+	private static readonly TOKEN_CLIENT_ID_KEY = "spotifyTokenClientId";
+	private static readonly ACCOUNTS_KEY = "xilie.accounts";
+	private static readonly ACTIVE_ACCOUNT_KEY = "xilie.activeAccount";
+	// Tokens migrated from before multiple accounts whose owner is unknown
+	private static readonly PLACEHOLDER_ACCOUNT: SpotifyAccount = {
+		id: "default",
+		label: "Spotify",
+	};
 
 	private readonly REDIRECT_URIS: Map<string, string>;
 	private readonly secrets: vscode.SecretStorage;
 
 	// Internal state for the current authentication attempt
 	private _currentAuthPromise: Promise<string> | undefined;
-	private _uriHandlerDisposable: vscode.Disposable | undefined;
+	private _loopbackServer: LoopbackServer | undefined;
+	private _refreshPromises = new Map<string, Promise<string>>();
+	private _migration: Promise<void> | undefined;
+
+	// Fired when an account is added or its tokens are wiped (sign out, failed refresh...)
+	private readonly _onDidChangeAccounts = new vscode.EventEmitter<void>();
+	public readonly onDidChangeAccounts: vscode.Event<void> =
+		this._onDidChangeAccounts.event;
+
+	// Fired when API calls start using a different account
+	private readonly _onDidChangeActiveAccount = new vscode.EventEmitter<
+		SpotifyAccount | undefined
+	>();
+	public readonly onDidChangeActiveAccount: vscode.Event<
+		SpotifyAccount | undefined
+	> = this._onDidChangeActiveAccount.event;
 
 	constructor(
 		secretStorage: vscode.SecretStorage,
@@ -29,7 +74,15 @@ export class SpotifyAuth {
 		this.REDIRECT_URIS = redirectUris;
 	}
 
-	public async authenticate(): Promise<string> {
+	/**
+	 * Runs the authorization flow and stores the resulting tokens. The account
+	 * that signed in becomes the active one.
+	 * @param scopes The scopes to request. Defaults to `SETTINGS.vars.SCOPES`.
+	 * @returns The access token.
+	 */
+	public async authenticate(
+		scopes: readonly string[] = SETTINGS.vars.SCOPES,
+	): Promise<string> {
 		// Prevent multiple authentication attempts simultaniously
 		if (this._currentAuthPromise) {
 			vscode.window.showInformationMessage(
@@ -38,136 +91,175 @@ export class SpotifyAuth {
 			return this._currentAuthPromise;
 		}
 
-		this._currentAuthPromise = new Promise(async (resolve, reject) => {
-			try {
-				// 1. Generate PKCE code_verifier and code _challenge
-				const codeVerifier = this.generateRandomString(128);
-				const codeChallenge = await this.generateCodeChallenge(codeVerifier);
-
-				// Store the code_verifier securely for later use in the token exchange
-				await this.secrets.store("xilie.pkce.codeVerifier", codeVerifier);
-
-				// 2. Force all IDEs to use manual code input fallback
-				const supportsUriHandler = false; // Force fallback for all IDEs
-
-				const redirectUri = supportsUriHandler
-					? this.REDIRECT_URIS.get("vscode")!
-					: this.REDIRECT_URIS.get("browser")!;
-
-				// 3. Construct the Spotify authorization URL
-				const authUrl = new URL("https://accounts.spotify.com/authorize");
-				authUrl.searchParams.append("client_id", this.CLIENT_ID);
-				authUrl.searchParams.append("response_type", "code");
-				authUrl.searchParams.append("redirect_uri", redirectUri);
-				authUrl.searchParams.append(
-					"scope",
-					"user-read-private user-read-email user-read-playback-state user-modify-playback-state user-read-currently-playing playlist-read-private playlist-read-collaborative playlist-modify-public playlist-modify-private user-library-read user-follow-read user-library-modify user-top-read user-read-recently-played",
-				); // Request necessary scopes
-				authUrl.searchParams.append("code_challenge_method", "S256");
-				authUrl.searchParams.append("code_challenge", codeChallenge);
-				authUrl.searchParams.append("state", this.generateRandomString(16)); // Optional state parameter for CSRF protection
-
-				// 4. Register a URI handler to capture the redirect from Spotify
-				// This handler will be called when the browser redirects back to extension's URI
-				if (supportsUriHandler) {
-					this._uriHandlerDisposable = vscode.window.registerUriHandler({
-						handleUri: async (uri: vscode.Uri) => {
-							this._uriHandlerDisposable?.dispose(); // Dispose handler after first use
-							this._uriHandlerDisposable = undefined;
-
-							const params = new URLSearchParams(uri.query);
-							const code = params.get("code");
-							const error = params.get("error");
-
-							if (error) {
-								reject(new Error(`Spotify authorization error: ${error}`));
-								return;
-							}
-
-							if (!code) {
-								reject(
-									new Error("No authorization code received from Spotify."),
-								);
-								return;
-							}
-
-							// 5. Exchange the authorization code for an access token
-							try {
-								const accessToken = await this.exchangeCodeForToken(
-									code,
-									redirectUri,
-								);
-								resolve(accessToken);
-							} catch (tokenError: any) {
-								reject(
-									new Error(
-										`Failed to exchange code for token: ${tokenError.message || tokenError}`,
-									),
-								);
-							} finally {
-								this._currentAuthPromise = undefined; // Reset the promise
-							}
-						},
-					});
+		this._currentAuthPromise = this.runAuthorization(scopes).finally(() => {
+			this._currentAuthPromise = undefined; // Reset the promise
+		});
 
-					// Open the authentication URL in the user's default browser
-					await vscode.env.openExternal(vscode.Uri.parse(authUrl.toString()));
-				} else {
-					// Fallback for other variants of VS Code that don't support URI handlers
-					try {
-						await vscode.env.openExternal(vscode.Uri.parse(authUrl.toString()));
-						vscode.window.showInformationMessage(
-							"Please authorize extension in your browser. After authorization, copy the authorization code and paste it here.",
-						);
-
-						const code = await vscode.window.showInputBox({
-							prompt: "Enter authorization code",
-							placeHolder: "Authorization code",
-							ignoreFocusOut: true,
-						});
-
-						if (!code) {
-							reject(new Error("No authorization code received."));
-							return;
-						}
+		return this._currentAuthPromise;
+	}
 
-						// Exchange the authorization code for an access token
-						try {
-							const accessToken = await this.exchangeCodeForToken(
-								code,
-								redirectUri,
-							);
-							resolve(accessToken);
-						} catch (tokenError: any) {
-							reject(
-								new Error(
-									`Failed to exchange code for token: ${tokenError.message || tokenError}`,
-								),
-							);
-						} finally {
-							this._currentAuthPromise = undefined; // Reset the promise
-						}
-					} catch (error: any) {
-						reject(
-							new Error(
-								`Authentication initiation failed: ${error.message || error}`,
-							),
-						);
-					}
+	/**
+	 * Performs a single authorization attempt. With the user's own Spotify app
+	 * it prefers a loopback redirect on 127.0.0.1 and falls back to pasting the
+	 * code from the hosted callback page when the port can't be bound. Xilie's
+	 * shared app only has the hosted callback page registered.
+	 * @param scopes The scopes to request.
+	 * @returns The access token.
+	 */
+	private async runAuthorization(scopes: readonly string[]): Promise<string> {
+		const client = getSpotifyClient();
+		let code: string;
+		let redirectUri: string;
+
+		try {
+			// 1. Generate PKCE code_verifier and code _challenge
+			const codeVerifier = this.generateRandomString(128);
+			const codeChallenge = await this.generateCodeChallenge(codeVerifier);
+			const state = this.generateRandomString(16); // CSRF protection, checked by the loopback server
+
+			// Store the code_verifier securely for later use in the token exchange
+			await this.secrets.store("xilie.pkce.codeVerifier", codeVerifier);
+
+			// 2. Try to bind the loopback listener, otherwise use the manual flow
+			const loopback = this.getLoopbackTarget(
+				client.clientId,
+				client.redirectUri,
+			);
+			if (loopback) {
+				try {
+					this._loopbackServer = await LoopbackServer.listen(
+						loopback.port,
+						state,
+						loopback.path,
+					);
+				} catch (error: any) {
+					logger.warn(
+						`Could not bind loopback port ${loopback.port} (${error.code || error.message}), falling back to manual code entry`,
+					);
 				}
-			} catch (error: any) {
-				this._uriHandlerDisposable?.dispose();
-				this._uriHandlerDisposable = undefined;
-				this._currentAuthPromise = undefined;
-				reject(
-					new Error(
-						`Authentication initiation failed: ${error.message || error}`,
-					),
-				);
 			}
+
+			redirectUri =
+				client.redirectUri ??
+				this._loopbackServer?.redirectUri ??
+				this.REDIRECT_URIS.get("browser")!;
+
+			// 3. Construct the Spotify authorization URL
+			const authUrl = new URL("https://accounts.spotify.com/authorize");
+			authUrl.searchParams.append("client_id", client.clientId);
+			authUrl.searchParams.append("response_type", "code");
+			authUrl.searchParams.append("redirect_uri", redirectUri);
+			authUrl.searchParams.append("scope", scopes.join(" ")); // Request necessary scopes
+			authUrl.searchParams.append("code_challenge_method", "S256");
+			authUrl.searchParams.append("code_challenge", codeChallenge);
+			authUrl.searchParams.append("state", state);
+
+			// 4. Send the user to Spotify and collect the authorization code
+			await vscode.env.openExternal(vscode.Uri.parse(authUrl.toString()));
+			code = this._loopbackServer
+				? await this.waitForLoopbackCode(this._loopbackServer)
+				: await this.promptForCode();
+		} catch (error: any) {
+			throw new Error(
+				`Authentication initiation failed: ${error.message || error}`,
+			);
+		} finally {
+			this._loopbackServer?.dispose();
+			this._loopbackServer = undefined;
+		}
+
+		// 5. Exchange the authorization code for an access token
+		try {
+			return await this.exchangeCodeForToken(
+				code,
+				redirectUri,
+				client.clientId,
+			);
+		} catch (tokenError: any) {
+			throw new Error(
+				`Failed to exchange code for token: ${tokenError.message || tokenError}`,
+			);
+		}
+	}
+
+	/**
+	 * Works out where the loopback server should listen.
+	 * @param clientId The client ID sign-in uses.
+	 * @param redirectUri Optional: The configured redirect URI.
+	 * @returns The port and path to listen on, or undefined when the configured
+	 * redirect URI points somewhere other than this machine, or sign-in uses
+	 * the shared app, which only accepts the hosted callback page.
+	 */
+	private getLoopbackTarget(
+		clientId: string,
+		redirectUri?: string,
+	): { port: number; path: string } | undefined {
+		if (!redirectUri) {
+			// TODO: Drop once http://127.0.0.1:<port>/callback is registered for the
+			// shared app in the Spotify Developer Dashboard
+			if (clientId === DEFAULT_CLIENT_ID) {
+				return undefined;
+			}
+			const port = vscode.workspace
+				.getConfiguration("xilie")
+				.get<number>("loopbackPort", 8888);
+			return { port, path: "/callback" };
+		}
+
+		try {
+			const url = new URL(redirectUri);
+			const isLoopback = ["127.0.0.1", "localhost", "[::1]"].includes(
+				url.hostname,
+			);
+			if (url.protocol === "http:" && isLoopback) {
+				return { port: Number(url.port) || 80, path: url.pathname };
+			}
+		} catch {
+			logger.warn(`Ignoring malformed redirect URI: ${redirectUri}`);
+		}
+		return undefined;
+	}
+
+	/**
+	 * Waits for the browser to hit the loopback server, showing a cancellable
+	 * notification in the meantime.
+	 * @param server The started loopback server.
+	 * @returns The authorization code.
+	 */
+	private async waitForLoopbackCode(server: LoopbackServer): Promise<string> {
+		return vscode.window.withProgress(
+			{
+				location: vscode.ProgressLocation.Notification,
+				title: "Waiting for Spotify authorization in your browser...",
+				cancellable: true,
+			},
+			async (_progress, token) => {
+				token.onCancellationRequested(() => server.cancel());
+				return server.waitForCode(5 * 60 * 1000);
+			},
+		);
+	}
+
+	/**
+	 * Asks the user to paste the code shown by the hosted callback page.
+	 * Used for VS Code variants where the loopback port is unavailable.
+	 * @returns The authorization code.
+	 */
+	private async promptForCode(): Promise<string> {
+		vscode.window.showInformationMessage(
+			"Please authorize extension in your browser. After authorization, copy the authorization code and paste it here.",
+		);
+
+		const code = await vscode.window.showInputBox({
+			prompt: "Enter authorization code",
+			placeHolder: "Authorization code",
+			ignoreFocusOut: true,
 		});
 
-		return this._currentAuthPromise;
+		if (!code) {
+			throw new Error("No authorization code received.");
+		}
+		return code;
 	}
 
 	/**
@@ -203,11 +295,13 @@ export class SpotifyAuth {
 	 * This is a server-to-server (or extension-host-to-server) request.
 	 * @param code The authorization code received from Spotify.
 	 * @param redirectUri The redirect URI used in the authorization request.
+	 * @param clientId The client ID used in the authorization request.
 	 * @returns The access token.
 	 */
 	private async exchangeCodeForToken(
 		code: string,
 		redirectUri: string,
+		clientId: string,
 	): Promise<string> {
 		const tokenEndpoint = "https://accounts.spotify.com/api/token";
 		const codeVerifier = await this.secrets.get("xilie.pkce.codeVerifier");
@@ -219,7 +313,7 @@ export class SpotifyAuth {
 		}
 
 		const params = new URLSearchParams();
-		params.append("client_id", this.CLIENT_ID);
+		params.append("client_id", clientId);
 		params.append("grant_type", "authorization_code");
 		params.append("code", code);
 		params.append("redirect_uri", redirectUri);
@@ -245,31 +339,85 @@ export class SpotifyAuth {
 			access_token: string;
 			refresh_token: string;
 			expires_in: number;
+			scope?: string;
 			[key: string]: any;
 		};
 
+		// Tokens are stored per account, so find out who just signed in
+		const user = await this.fetchUser(tokenResponse.access_token);
+		const key = (base: string) => SpotifyAuth.accountKey(base, user.id);
+
 		// Store tokens securely
 		await this.secrets.store(
-			SpotifyAuth.ACCESS_TOKEN_KEY,
+			key(SpotifyAuth.ACCESS_TOKEN_KEY),
 			tokenResponse.access_token,
 		);
 		await this.secrets.store(
-			SpotifyAuth.REFRESH_TOKEN_KEY,
+			key(SpotifyAuth.REFRESH_TOKEN_KEY),
 			tokenResponse.refresh_token,
 		);
 		// Store expiry time (current time + expires_in seconds)
 		await this.secrets.store(
-			SpotifyAuth.TOKEN_EXPIRY_KEY,
+			key(SpotifyAuth.TOKEN_EXPIRY_KEY),
 			(Date.now() + tokenResponse.expires_in * 1000).toString(),
 		);
+		await this.secrets.store(
+			key(SpotifyAuth.TOKEN_SCOPES_KEY),
+			tokenResponse.scope ?? "",
+		);
+		// Remember which app issued the tokens so a client change can invalidate them
+		await this.secrets.store(key(SpotifyAuth.TOKEN_CLIENT_ID_KEY), clientId);
+
+		const accounts = (await this.getAccounts()).filter(
+			(account) => account.id !== user.id,
+		);
+		accounts.push({ id: user.id, label: user.display_name || user.id });
+		await this.secrets.store(
+			SpotifyAuth.ACCOUNTS_KEY,
+			JSON.stringify(accounts),
+		);
+		this._onDidChangeAccounts.fire();
+		await this.setActiveAccount(user.id);
 
 		return tokenResponse.access_token;
 	}
 
-	public async getAccessToken(): Promise<string> {
-		let accessToken = await this.secrets.get(SpotifyAuth.ACCESS_TOKEN_KEY);
-		const refreshToken = await this.secrets.get(SpotifyAuth.REFRESH_TOKEN_KEY);
-		const expiryTimeStr = await this.secrets.get(SpotifyAuth.TOKEN_EXPIRY_KEY);
+	/**
+	 * Fetches the profile a freshly issued token belongs to.
+	 * @param accessToken The access token.
+	 */
+	private async fetchUser(accessToken: string): Promise<SpotifyUser> {
+		const response = await fetch("https://api.spotify.com/v1/me", {
+			headers: { Authorization: `Bearer ${accessToken}` },
+		});
+
+		if (!response.ok) {
+			throw new Error(
+				`Failed to fetch Spotify profile: ${response.status} - ${await response.text()}`,
+			);
+		}
+
+		return (await response.json()) as SpotifyUser;
+	}
+
+	/**
+	 * Returns a valid access token, refreshing it if needed.
+	 * @param accountId Optional: The account to use. Defaults to the active account.
+	 */
+	public async getAccessToken(accountId?: string): Promise<string> {
+		const id = accountId ?? (await this.getActiveAccount())?.id;
+		if (!id) {
+			throw new Error("No Spotify account signed in. Please authenticate.");
+		}
+		const key = (base: string) => SpotifyAuth.accountKey(base, id);
+
+		let accessToken = await this.secrets.get(key(SpotifyAuth.ACCESS_TOKEN_KEY));
+		const refreshToken = await this.secrets.get(
+			key(SpotifyAuth.REFRESH_TOKEN_KEY),
+		);
+		const expiryTimeStr = await this.secrets.get(
+			key(SpotifyAuth.TOKEN_EXPIRY_KEY),
+		);
 		const expiryTime = expiryTimeStr ? parseInt(expiryTimeStr, 10) : 0;
 
 		// Check if token is missing or expired (with a small buffer)
@@ -280,12 +428,28 @@ export class SpotifyAuth {
 			}
 
 			try {
-				logger.info("Refreshing Spotify access token...");
-				accessToken = await this.refreshAccessToken(refreshToken);
+				// Concurrent callers share one refresh: Spotify rotates refresh tokens,
+				// so a second parallel refresh would be rejected and end the session
+				let refresh = this._refreshPromises.get(id);
+				if (!refresh) {
+					logger.info("Refreshing Spotify access token...");
+					refresh = this.refreshAccessToken(refreshToken, id).finally(() => {
+						this._refreshPromises.delete(id);
+					});
+					this._refreshPromises.set(id, refresh);
+				}
+				accessToken = await refresh;
 				logger.info("Successfully refreshed Spotify access token");
 			} catch (error: any) {
 				logger.error(`Failed to refresh Spotify token: ${error.message}`);
 
+				if (!(error instanceof InvalidRefreshTokenError)) {
+					// Keep the stored tokens, the next call will retry the refresh
+					throw new Error(
+						`Could not refresh Spotify session: ${error.message}`,
+					);
+				}
+
 				// Show user-friendly error message
 				vscode.window
 					.showInformationMessage(
@@ -299,7 +463,7 @@ export class SpotifyAuth {
 					});
 
 				// Clear invalid tokens
-				await this.clearTokens();
+				await this.clearTokens(id);
 				throw new Error("Spotify session expired. Please re-authenticate.");
 			}
 		}
@@ -314,9 +478,13 @@ export class SpotifyAuth {
 	/**
 	 * Refreshes the Spotify access token using the refresh token.
 	 * @param refreshToken The refresh token.
+	 * @param accountId The account the refresh token belongs to.
 	 * @returns The new access token.
 	 */
-	private async refreshAccessToken(refreshToken: string): Promise<string> {
+	private async refreshAccessToken(
+		refreshToken: string,
+		accountId: string,
+	): Promise<string> {
 		if (!refreshToken) {
 			throw new Error("No refresh token provided");
 		}
@@ -325,7 +493,7 @@ export class SpotifyAuth {
 		const params = new URLSearchParams();
 		params.append("grant_type", "refresh_token");
 		params.append("refresh_token", refreshToken);
-		params.append("client_id", this.CLIENT_ID); // Client ID is required for refresh token grant
+		params.append("client_id", await this.getTokenClientId(accountId)); // Client ID is required for refresh token grant
 
 		// PKCE-only flow: no client secret needed for token refresh
 		const response = await fetch(tokenEndpoint, {
@@ -342,9 +510,13 @@ export class SpotifyAuth {
 
 			// Handle specific error cases
 			if (response.status === 400) {
-				throw new Error("Invalid refresh token. Re-authentication required.");
+				throw new InvalidRefreshTokenError(
+					"Invalid refresh token. Re-authentication required.",
+				);
 			} else if (response.status === 401) {
-				throw new Error("Refresh token expired. Re-authentication required.");
+				throw new InvalidRefreshTokenError(
+					"Refresh token expired. Re-authentication required.",
+				);
 			} else {
 				throw new Error(
 					`Spotify token refresh failed: ${response.status} - ${errorText}`,
@@ -356,6 +528,7 @@ export class SpotifyAuth {
 			access_token: string;
 			refresh_token?: string;
 			expires_in: number;
+			scope?: string;
 			[key: string]: any;
 		};
 
@@ -363,9 +536,11 @@ export class SpotifyAuth {
 			throw new Error("No access token received from refresh");
 		}
 
+		const key = (base: string) => SpotifyAuth.accountKey(base, accountId);
+
 		// Store new tokens securely
 		await this.secrets.store(
-			SpotifyAuth.ACCESS_TOKEN_KEY,
+			key(SpotifyAuth.ACCESS_TOKEN_KEY),
 			tokenResponse.access_token,
 		);
 
@@ -373,7 +548,7 @@ export class SpotifyAuth {
 		// Always store the new one if provided.
 		if (tokenResponse.refresh_token) {
 			await this.secrets.store(
-				SpotifyAuth.REFRESH_TOKEN_KEY,
+				key(SpotifyAuth.REFRESH_TOKEN_KEY),
 				tokenResponse.refresh_token,
 			);
 		}
@@ -381,16 +556,282 @@ export class SpotifyAuth {
 		// Store expiry time (current time + expires_in seconds)
 		const expiryTime = Date.now() + tokenResponse.expires_in * 1000;
 		await this.secrets.store(
-			SpotifyAuth.TOKEN_EXPIRY_KEY,
+			key(SpotifyAuth.TOKEN_EXPIRY_KEY),
 			expiryTime.toString(),
 		);
 
+		if (tokenResponse.scope !== undefined) {
+			await this.secrets.store(
+				key(SpotifyAuth.TOKEN_SCOPES_KEY),
+				tokenResponse.scope,
+			);
+		}
+
 		console.log(
 			`Token refreshed successfully. Expires at: ${new Date(expiryTime).toISOString()}`,
 		);
 		return tokenResponse.access_token;
 	}
 
+	/**
+	 * Clears the stored tokens of every account that was issued to a different
+	 * Spotify app than the one currently configured. Tokens are bound to the
+	 * client that requested them and can't be refreshed by another one.
+	 * Only called when `xilie.clientId` changes: the setting can differ per
+	 * workspace while tokens are shared by every window, which refresh them
+	 * with the client they were issued to.
+	 * @returns True if tokens were cleared.
+	 */
+	public async invalidateIfClientChanged(): Promise<boolean> {
+		const { clientId } = getSpotifyClient();
+		let cleared = false;
+
+		for (const account of await this.getAccounts()) {
+			if ((await this.getTokenClientId(account.id)) !== clientId) {
+				logger.info(
+					`Spotify client ID changed, discarding tokens for ${account.label}`,
+				);
+				await this.clearTokens(account.id);
+				cleared = true;
+			}
+		}
+		return cleared;
+	}
+
+	/**
+	 * Returns the client ID an account's tokens were issued to. Tokens stored
+	 * before this was tracked always came from Xilie's shared app.
+	 * @param accountId The account to look up.
+	 */
+	private async getTokenClientId(accountId: string): Promise<string> {
+		return (
+			(await this.secrets.get(
+				SpotifyAuth.accountKey(SpotifyAuth.TOKEN_CLIENT_ID_KEY, accountId),
+			)) ?? DEFAULT_CLIENT_ID
+		);
+	}
+
+	/**
+	 * Returns the scopes Spotify granted to an account's tokens.
+	 * @param accountId Optional: The account to look up. Defaults to the active account.
+	 */
+	public async getGrantedScopes(accountId?: string): Promise<string[]> {
+		const id = accountId ?? (await this.getActiveAccount())?.id;
+		if (!id) {
+			return [];
+		}
+		const scopes = await this.secrets.get(
+			SpotifyAuth.accountKey(SpotifyAuth.TOKEN_SCOPES_KEY, id),
+		);
+		return scopes ? scopes.split(" ").filter((scope) => scope) : [];
+	}
+
+	/**
+	 * Re-runs the authorization flow for the active account, asking for the
+	 * given scopes on top of the ones already granted. Spotify only issues
+	 * tokens for the scopes listed in the request, so the granted ones have to
+	 * be repeated; the consent screen only prompts for the new ones.
+	 * @param missingScopes The scopes to add.
+	 * @returns The new access token.
+	 */
+	public async requestScopes(
+		missingScopes: readonly string[],
+	): Promise<string> {
+		const granted = await this.getGrantedScopes();
+		const scopes = new Set([
+			...(granted.length > 0 ? granted : SETTINGS.vars.SCOPES),
+			...missingScopes,
+		]);
+		return this.authenticate(Array.from(scopes));
+	}
+
+	/**
+	 * Returns every signed-in account.
+	 */
+	public async getAccounts(): Promise<SpotifyAccount[]> {
+		this._migration ??= this.migrateLegacyTokens().then(() =>
+			this.identifyPlaceholderAccount(),
+		);
+		await this._migration;
+
+		const raw = await this.secrets.get(SpotifyAuth.ACCOUNTS_KEY);
+		if (!raw) {
+			return [];
+		}
+		try {
+			return JSON.parse(raw) as SpotifyAccount[];
+		} catch {
+			logger.warn("Discarding corrupted Spotify account list");
+			await this.secrets.delete(SpotifyAuth.ACCOUNTS_KEY);
+			return [];
+		}
+	}
+
+	/**
+	 * Returns the account API calls are made with, if any.
+	 */
+	public async getActiveAccount(): Promise<SpotifyAccount | undefined> {
+		const accounts = await this.getAccounts();
+		const activeId = await this.secrets.get(SpotifyAuth.ACTIVE_ACCOUNT_KEY);
+		return accounts.find((account) => account.id === activeId) ?? accounts[0];
+	}
+
+	/**
+	 * Makes the given account the one API calls are made with.
+	 * @param accountId The ID of a signed-in account.
+	 */
+	public async setActiveAccount(accountId: string): Promise<void> {
+		const account = (await this.getAccounts()).find(
+			(candidate) => candidate.id === accountId,
+		);
+		if (!account) {
+			throw new Error(`Unknown Spotify account: ${accountId}`);
+		}
+
+		await this.secrets.store(SpotifyAuth.ACTIVE_ACCOUNT_KEY, accountId);
+		this._onDidChangeActiveAccount.fire(account);
+	}
+
+	/**
+	 * Moves tokens stored under the old un-suffixed keys (from before multiple
+	 * accounts were supported) to an account entry of their own.
+	 */
+	private async migrateLegacyTokens(): Promise<void> {
+		const refreshToken = await this.secrets.get(SpotifyAuth.REFRESH_TOKEN_KEY);
+		if (!refreshToken) {
+			return;
+		}
+
+		// The authentication provider used to keep the account it signed in
+		const legacySession = await this.secrets.get("xilie.session");
+		let account: SpotifyAccount | undefined;
+		if (legacySession) {
+			try {
+				const { account: info } = JSON.parse(legacySession);
+				account = { id: info.id, label: info.label };
+			} catch {
+				// Use the placeholder account
+			}
+		}
+
+		// Without the session, Spotify is asked who the tokens belong to afterwards
+		account ??= SpotifyAuth.PLACEHOLDER_ACCOUNT;
+		await this.moveTokens((base) => base, account.id);
+		await this.secrets.delete("xilie.session");
+
+		await this.secrets.store(
+			SpotifyAuth.ACCOUNTS_KEY,
+			JSON.stringify([account]),
+		);
+		await this.secrets.store(SpotifyAuth.ACTIVE_ACCOUNT_KEY, account.id);
+		logger.info(`Migrated stored Spotify tokens to account ${account.label}`);
+	}
+
+	/**
+	 * Looks up who tokens migrated to the placeholder account belong to and
+	 * moves them to that account, so signing in again doesn't store the same
+	 * user twice. Tried again on every start until Spotify can be reached.
+	 */
+	private async identifyPlaceholderAccount(): Promise<void> {
+		const placeholder = SpotifyAuth.PLACEHOLDER_ACCOUNT;
+		const raw = await this.secrets.get(SpotifyAuth.ACCOUNTS_KEY);
+		let accounts: SpotifyAccount[];
+		try {
+			accounts = raw ? (JSON.parse(raw) as SpotifyAccount[]) : [];
+		} catch {
+			return; // getAccounts discards the corrupted list
+		}
+		if (!accounts.some((account) => account.id === placeholder.id)) {
+			return;
+		}
+
+		const key = (base: string) => SpotifyAuth.accountKey(base, placeholder.id);
+		try {
+			// getAccessToken would wait for the migration this is part of
+			let accessToken = await this.secrets.get(
+				key(SpotifyAuth.ACCESS_TOKEN_KEY),
+			);
+			const expiry = parseInt(
+				(await this.secrets.get(key(SpotifyAuth.TOKEN_EXPIRY_KEY))) ?? "0",
+				10,
+			);
+			if (!accessToken || Date.now() >= expiry - 5 * 60 * 1000) {
+				const refreshToken = await this.secrets.get(
+					key(SpotifyAuth.REFRESH_TOKEN_KEY),
+				);
+				accessToken = await this.refreshAccessToken(
+					refreshToken ?? "",
+					placeholder.id,
+				);
+			}
+			const user = await this.fetchUser(accessToken);
+
+			if (accounts.some((account) => account.id === user.id)) {
+				// Signed in again since, those tokens are newer
+				await this.moveTokens(key, undefined);
+			} else {
+				await this.moveTokens(key, user.id);
+			}
+			const account = { id: user.id, label: user.display_name || user.id };
+			await this.secrets.store(
+				SpotifyAuth.ACCOUNTS_KEY,
+				JSON.stringify([
+					...accounts.filter(
+						(candidate) =>
+							candidate.id !== placeholder.id && candidate.id !== user.id,
+					),
+					account,
+				]),
+			);
+			if (
+				(await this.secrets.get(SpotifyAuth.ACTIVE_ACCOUNT_KEY)) ===
+				placeholder.id
+			) {
+				await this.secrets.store(SpotifyAuth.ACTIVE_ACCOUNT_KEY, user.id);
+			}
+			logger.info(`Stored Spotify tokens belong to ${account.label}`);
+		} catch (error: any) {
+			logger.warn(
+				`Could not look up the Spotify account of the stored tokens: ${error.message}`,
+			);
+		}
+	}
+
+	/**
+	 * Moves an account's tokens to other SecretStorage keys.
+	 * @param from Returns the key a value is currently stored under.
+	 * @param accountId The account to store them under, undefined to only
+	 * delete them.
+	 */
+	private async moveTokens(
+		from: (base: string) => string,
+		accountId: string | undefined,
+	): Promise<void> {
+		for (const base of [
+			SpotifyAuth.ACCESS_TOKEN_KEY,
+			SpotifyAuth.REFRESH_TOKEN_KEY,
+			SpotifyAuth.TOKEN_EXPIRY_KEY,
+			SpotifyAuth.TOKEN_SCOPES_KEY,
+			SpotifyAuth.TOKEN_CLIENT_ID_KEY,
+		]) {
+			const value = await this.secrets.get(from(base));
+			if (value !== undefined && accountId !== undefined) {
+				await this.secrets.store(
+					SpotifyAuth.accountKey(base, accountId),
+					value,
+				);
+			}
+			await this.secrets.delete(from(base));
+		}
+	}
+
+	/**
+	 * Builds the SecretStorage key for one of an account's values.
+	 */
+	private static accountKey(base: string, accountId: string): string {
+		return `${base}.${accountId}`;
+	}
+
 	/**
 	 * Checks if the user us currently authenticated (has an access token).
 	 */
@@ -405,10 +846,9 @@ export class SpotifyAuth {
 
 	public async cancelAuthentication(): Promise<void> {
 		this._currentAuthPromise = undefined; // Clear the current auth promise
-		if (this._uriHandlerDisposable) {
-			this._uriHandlerDisposable.dispose();
-			this._uriHandlerDisposable = undefined;
-			await this.clearTokens(); // Clear any stored tokens
+		if (this._loopbackServer) {
+			// Tokens are only stored once the code is exchanged, nothing to clear
+			this._loopbackServer.cancel();
 			vscode.window.showInformationMessage("Spotify authentication cancelled.");
 		} else {
 			vscode.window.showInformationMessage("No authentication in progress.");
@@ -416,14 +856,79 @@ export class SpotifyAuth {
 	}
 
 	/**
-	 * Clears all stored Spotify authentication tokens.
+	 * Signs out and asks Spotify to forget Xilie. Spotify's Web API has no
+	 * token revocation endpoint, so besides wiping every stored token and the
+	 * pending PKCE verifier, the user is sent to the account page where the
+	 * app's access can be removed, which invalidates the refresh token on
+	 * every machine it was copied to.
+	 */
+	public async signOutEverywhere(): Promise<void> {
+		await this.clearAllTokens();
+
+		vscode.window
+			.showInformationMessage(
+				"Signed out of Spotify on this machine. To revoke Xilie's access everywhere, remove it from the apps connected to your Spotify account.",
+				"Manage Apps",
+			)
+			.then((selection) => {
+				if (selection === "Manage Apps") {
+					vscode.env.openExternal(
+						vscode.Uri.parse("https://www.spotify.com/account/apps/"),
+					);
+				}
+			});
+	}
+
+	/**
+	 * Clears the stored tokens of every account and the pending PKCE verifier,
+	 * e.g. when VS Code closes with `xilie.ephemeralSessions` on.
+	 */
+	public async clearAllTokens(): Promise<void> {
+		for (const account of await this.getAccounts()) {
+			await this.clearTokens(account.id);
+		}
+		await this.secrets.delete("xilie.pkce.codeVerifier");
+	}
+
+	/**
+	 * Clears the stored Spotify authentication tokens of one account and
+	 * removes it from the account list.
+	 * @param accountId Optional: The account to sign out. Defaults to the active account.
 	 */
-	public async clearTokens(): Promise<void> {
-		await this.secrets.delete(SpotifyAuth.ACCESS_TOKEN_KEY);
-		await this.secrets.delete(SpotifyAuth.REFRESH_TOKEN_KEY);
-		await this.secrets.delete(SpotifyAuth.TOKEN_EXPIRY_KEY);
-		// vscode.window.showInformationMessage(
-		// 	`Xilie: Spotify tokens cleared. Please re-authenticate.`,
-		// );
+	public async clearTokens(accountId?: string): Promise<void> {
+		const active = await this.getActiveAccount();
+		const id = accountId ?? active?.id;
+		if (!id) {
+			return;
+		}
+
+		for (const base of [
+			SpotifyAuth.ACCESS_TOKEN_KEY,
+			SpotifyAuth.REFRESH_TOKEN_KEY,
+			SpotifyAuth.TOKEN_EXPIRY_KEY,
+			SpotifyAuth.TOKEN_SCOPES_KEY,
+			SpotifyAuth.TOKEN_CLIENT_ID_KEY,
+		]) {
+			await this.secrets.delete(SpotifyAuth.accountKey(base, id));
+		}
+
+		const remaining = (await this.getAccounts()).filter(
+			(account) => account.id !== id,
+		);
+		await this.secrets.store(
+			SpotifyAuth.ACCOUNTS_KEY,
+			JSON.stringify(remaining),
+		);
+		this._onDidChangeAccounts.fire();
+
+		// Fall back to another signed-in account, if there is one
+		if (active?.id === id) {
+			if (remaining.length > 0) {
+				await this.setActiveAccount(remaining[0].id);
+			} else {
+				await this.secrets.delete(SpotifyAuth.ACTIVE_ACCOUNT_KEY);
+				this._onDidChangeActiveAccount.fire(undefined);
+			}
+		}
 	}
 }
@@ -0,0 +1,191 @@
+import * as vscode from "vscode";
+import { SpotifyAccount, SpotifyAuth } from "./auth";
+import { logger } from "../utils/logger";
+import { SETTINGS } from "../config/settings";
+
+/**
+ * Exposes SpotifyAuth through VS Code's authentication API so the Accounts
+ * menu reflects the sign-in state and other extensions can request a session
+ * with `vscode.authentication.getSession("spotify", scopes)`.
+ * Every account signed in through SpotifyAuth is one session.
+ */
+export class SpotifyAuthenticationProvider
+	implements vscode.AuthenticationProvider, vscode.Disposable
+{
+	public static readonly id = "spotify";
+	public static readonly label = "Spotify";
+
+	private _onDidChangeSessions =
+		new vscode.EventEmitter<vscode.AuthenticationProviderAuthenticationSessionsChangeEvent>();
+	readonly onDidChangeSessions: vscode.Event<vscode.AuthenticationProviderAuthenticationSessionsChangeEvent> =
+		this._onDidChangeSessions.event;
+
+	// Last reported session of every account, used to work out which sessions
+	// were added or removed
+	private knownSessions = new Map<string, vscode.AuthenticationSession>();
+	// Sign-ins in progress report their session themselves
+	private signingIn = 0;
+
+	private readonly disposables: vscode.Disposable[] = [];
+
+	constructor(private readonly spotifyAuth: SpotifyAuth) {
+		this.getSessions().then((sessions) => {
+			for (const session of sessions) {
+				this.knownSessions.set(session.id, session);
+			}
+		});
+
+		this.disposables.push(
+			this._onDidChangeSessions,
+			// Accounts can change underneath us (e.g. a failed refresh), keep the session list in sync
+			this.spotifyAuth.onDidChangeAccounts(() => this.syncSessions()),
+			vscode.authentication.registerAuthenticationProvider(
+				SpotifyAuthenticationProvider.id,
+				SpotifyAuthenticationProvider.label,
+				this,
+				{ supportsMultipleAccounts: true },
+			),
+		);
+	}
+
+	/**
+	 * Returns the sessions of every account granted all requested scopes.
+	 * @param scopes Optional: The scopes the caller needs.
+	 */
+	async getSessions(
+		scopes?: readonly string[],
+	): Promise<vscode.AuthenticationSession[]> {
+		const sessions: vscode.AuthenticationSession[] = [];
+
+		for (const account of await this.spotifyAuth.getAccounts()) {
+			const session = await this.getStoredSession(account);
+			if (
+				session &&
+				(!scopes || scopes.every((scope) => session.scopes.includes(scope)))
+			) {
+				sessions.push(session);
+			}
+		}
+
+		return sessions;
+	}
+
+	/**
+	 * Builds an account's session from its stored tokens and granted scopes.
+	 * @param account The account.
+	 * @returns The session, or undefined if the tokens are unusable.
+	 */
+	private async getStoredSession(
+		account: SpotifyAccount,
+	): Promise<vscode.AuthenticationSession | undefined> {
+		try {
+			const granted = await this.spotifyAuth.getGrantedScopes(account.id);
+			const accessToken = await this.spotifyAuth.getAccessToken(account.id);
+			return this.toSession(account, granted, accessToken);
+		} catch (error: any) {
+			logger.warn(
+				`Stored Spotify session for ${account.label} is unusable: ${error.message}`,
+			);
+			return undefined;
+		}
+	}
+
+	/**
+	 * Signs in with Spotify, requesting the default scopes plus any extra ones.
+	 * Signing in with an account that already has a session replaces its tokens.
+	 * @param scopes The scopes the caller needs.
+	 */
+	async createSession(
+		scopes: readonly string[],
+	): Promise<vscode.AuthenticationSession> {
+		const requested = Array.from(new Set([...SETTINGS.vars.SCOPES, ...scopes]));
+		this.signingIn++;
+		try {
+			const accessToken = await this.spotifyAuth.authenticate(requested);
+			const account = await this.spotifyAuth.getActiveAccount();
+			// Nothing was stored, e.g. the browser flow was abandoned
+			if (!account) {
+				throw new Error("Sign-in was cancelled");
+			}
+			const granted = await this.spotifyAuth.getGrantedScopes(account.id);
+
+			const session = this.toSession(
+				account,
+				granted.length > 0 ? granted : requested,
+				accessToken,
+			);
+			const isNew = !this.knownSessions.has(account.id);
+			this.knownSessions.set(account.id, session);
+			this._onDidChangeSessions.fire({
+				added: isNew ? [session] : [],
+				removed: [],
+				changed: isNew ? [] : [session],
+			});
+
+			logger.info(`Signed in to Spotify as ${account.label}`);
+			return session;
+		} finally {
+			this.signingIn--;
+		}
+	}
+
+	/**
+	 * Signs out of the given session, clearing the account's stored tokens.
+	 * @param sessionId The ID of the session to remove.
+	 */
+	async removeSession(sessionId: string): Promise<void> {
+		// clearTokens fires onDidChangeAccounts, which reports the removal
+		await this.spotifyAuth.clearTokens(sessionId);
+	}
+
+	/**
+	 * Compares the signed-in accounts against the last known ones and reports
+	 * the difference as session changes.
+	 */
+	private async syncSessions(): Promise<void> {
+		if (this.signingIn > 0) {
+			return;
+		}
+		const accounts = await this.spotifyAuth.getAccounts();
+
+		const added: vscode.AuthenticationSession[] = [];
+		for (const account of accounts) {
+			if (!this.knownSessions.has(account.id)) {
+				const session = await this.getStoredSession(account);
+				// Another sync may have reported it in the meantime
+				if (session && !this.knownSessions.has(account.id)) {
+					this.knownSessions.set(account.id, session);
+					added.push(session);
+				}
+			}
+		}
+		// The tokens of removed accounts are gone, report the sessions last known
+		const removed = [...this.knownSessions.values()].filter(
+			(session) => !accounts.some((account) => account.id === session.id),
+		);
+
+		for (const session of removed) {
+			this.knownSessions.delete(session.id);
+		}
+		if (added.length > 0 || removed.length > 0) {
+			this._onDidChangeSessions.fire({ added, removed, changed: [] });
+		}
+	}
+
+	private toSession(
+		account: SpotifyAccount,
+		scopes: readonly string[],
+		accessToken: string,
+	): vscode.AuthenticationSession {
+		return {
+			id: account.id,
+			account: { id: account.id, label: account.label },
+			scopes,
+			accessToken,
+		};
+	}
+
+	dispose(): void {
+		this.disposables.forEach((disposable) => disposable.dispose());
+	}
+}
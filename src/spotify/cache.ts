@@ -0,0 +1,271 @@
+import * as vscode from "vscode";
+import { logger } from "../utils/logger";
+
+/**
+ * A cached Spotify Web API response.
+ */
+export interface CacheEntry {
+	body: unknown;
+	etag?: string;
+	storedAt: number; // When the response was fetched or last revalidated
+	ttl: number; // Milliseconds the entry is served without asking Spotify
+	restored?: boolean; // Loaded from disk, not yet revalidated this session
+}
+
+interface InFlightRequest {
+	request: Promise<unknown>;
+	generation: number; // The cache generation when the request started
+}
+
+/**
+ * In-memory cache of GET responses, keyed by account and endpoint, that can
+ * be persisted to the extension's global storage so the sidebar has data to
+ * show right after startup. Also de-duplicates identical in-flight requests.
+ */
+export class ResponseCache implements vscode.Disposable {
+	private static readonly FILE_NAME = "response-cache.json";
+	private static readonly MAX_PERSISTED_ENTRIES = 200;
+
+	private _onDidRevalidate = new vscode.EventEmitter<void>();
+	/**
+	 * Fires when a response restored from disk turned out to be outdated, so
+	 * views that showed it can refresh.
+	 */
+	readonly onDidRevalidate: vscode.Event<void> = this._onDidRevalidate.event;
+
+	private entries = new Map<string, CacheEntry>();
+	private inFlight = new Map<string, InFlightRequest>();
+	// Bumped on every invalidation, so requests can tell whether one happened
+	// while they were in flight
+	private generation = 0;
+	private invalidatedAt = new Map<string, number>(); // By prefix, "" for all
+	private saveTimer: NodeJS.Timeout | undefined;
+	private readonly ready: Promise<void>;
+
+	/**
+	 * @param storageUri Optional: Directory to persist the cache in. The cache
+	 * stays in memory only when omitted.
+	 */
+	constructor(private readonly storageUri?: vscode.Uri) {
+		this.ready = this.load();
+	}
+
+	/**
+	 * Returns the entry for a key, once entries persisted by a previous session
+	 * have been loaded.
+	 * @param key The cache key.
+	 */
+	public async get(key: string): Promise<CacheEntry | undefined> {
+		await this.ready;
+		return this.entries.get(key);
+	}
+
+	/**
+	 * Whether an entry can be served without revalidating it.
+	 */
+	public isFresh(entry: CacheEntry): boolean {
+		return !entry.restored && Date.now() - entry.storedAt < entry.ttl;
+	}
+
+	/**
+	 * Stores a response.
+	 * @param key The cache key.
+	 * @param body The parsed response body.
+	 * @param ttl How long to serve it without asking Spotify, in milliseconds.
+	 * @param etag Optional: The response's ETag, used to revalidate it later.
+	 * @param generation Optional: The generation when the request started, see
+	 * {@link ResponseCache.currentGeneration}. The response is dropped if the
+	 * entry was invalidated since.
+	 */
+	public set(
+		key: string,
+		body: unknown,
+		ttl: number,
+		etag?: string,
+		generation?: number,
+	): void {
+		if (generation !== undefined && this.isStale(key, generation)) {
+			logger.debug(`Dropping response for ${key} invalidated in flight`);
+			return;
+		}
+
+		const previous = this.entries.get(key);
+		// Keep our own copy, callers are free to mutate what they got back
+		this.entries.set(key, {
+			body: structuredClone(body),
+			etag,
+			ttl,
+			storedAt: Date.now(),
+		});
+		this.scheduleSave();
+
+		if (
+			previous?.restored &&
+			JSON.stringify(previous.body) !== JSON.stringify(body)
+		) {
+			this._onDidRevalidate.fire();
+		}
+	}
+
+	/**
+	 * Marks an entry as fresh again after Spotify answered 304 Not Modified.
+	 * @param key The cache key.
+	 * @param generation Optional: The generation when the request started.
+	 */
+	public touch(key: string, generation?: number): void {
+		const entry = this.entries.get(key);
+		if (entry && (generation === undefined || !this.isStale(key, generation))) {
+			entry.storedAt = Date.now();
+			entry.restored = false;
+			this.scheduleSave();
+		}
+	}
+
+	/**
+	 * Drops entries whose endpoint starts with the given prefix, for every
+	 * account. Drops everything when no prefix is given.
+	 * @param prefix Optional: Endpoint prefix, e.g. "/me/playlists".
+	 */
+	public invalidate(prefix?: string): void {
+		this.generation++;
+		this.invalidatedAt.set(prefix ?? "", this.generation);
+		for (const key of this.entries.keys()) {
+			const endpoint = key.slice(key.indexOf(":") + 1);
+			if (prefix === undefined || endpoint.startsWith(prefix)) {
+				this.entries.delete(key);
+			}
+		}
+		this.scheduleSave();
+	}
+
+	/**
+	 * The current invalidation generation. Pass it along with a response
+	 * fetched afterwards so it isn't cached if invalidated in the meantime.
+	 */
+	public get currentGeneration(): number {
+		return this.generation;
+	}
+
+	/**
+	 * Whether an entry was invalidated after the given generation.
+	 * @param key The cache key.
+	 * @param generation The generation when the request started.
+	 */
+	private isStale(key: string, generation: number): boolean {
+		const endpoint = key.slice(key.indexOf(":") + 1);
+		for (const [prefix, invalidatedAt] of this.invalidatedAt) {
+			if (invalidatedAt > generation && endpoint.startsWith(prefix)) {
+				return true;
+			}
+		}
+		return false;
+	}
+
+	/**
+	 * Drops entries belonging to accounts that are no longer signed in.
+	 * @param accountIds The IDs of the signed-in accounts.
+	 */
+	public retainAccounts(accountIds: string[]): void {
+		for (const key of this.entries.keys()) {
+			if (!accountIds.includes(key.slice(0, key.indexOf(":")))) {
+				this.entries.delete(key);
+			}
+		}
+		this.scheduleSave();
+	}
+
+	/**
+	 * Runs a request unless an identical one is already in flight, in which
+	 * case its result is shared. Requests started before the entry was
+	 * invalidated aren't shared.
+	 * @param key The cache key.
+	 * @param run Performs the request, given the generation it started in.
+	 */
+	public dedupe<T>(
+		key: string,
+		run: (generation: number) => Promise<T>,
+	): Promise<T> {
+		const pending = this.inFlight.get(key);
+		if (pending && !this.isStale(key, pending.generation)) {
+			return pending.request as Promise<T>;
+		}
+
+		const generation = this.generation;
+		const request = run(generation).finally(() => {
+			// A newer request may have taken over the key
+			if (this.inFlight.get(key)?.request === request) {
+				this.inFlight.delete(key);
+			}
+		});
+		this.inFlight.set(key, { request, generation });
+		return request;
+	}
+
+	private async load(): Promise<void> {
+		if (!this.storageUri) {
+			return;
+		}
+
+		try {
+			const data = await vscode.workspace.fs.readFile(this.fileUri());
+			const persisted = JSON.parse(Buffer.from(data).toString("utf8")) as [
+				string,
+				CacheEntry,
+			][];
+			for (const [key, entry] of persisted) {
+				this.entries.set(key, { ...entry, restored: true });
+			}
+			logger.debug(`Restored ${persisted.length} cached Spotify responses`);
+		} catch {
+			// No cache yet, or it is unreadable; start empty
+		}
+	}
+
+	private scheduleSave(): void {
+		if (!this.storageUri || this.saveTimer) {
+			return;
+		}
+		this.saveTimer = setTimeout(() => {
+			this.saveTimer = undefined;
+			this.save();
+		}, 2000);
+	}
+
+	private async save(): Promise<void> {
+		if (!this.storageUri) {
+			return;
+		}
+
+		// Keep the most recently fetched entries only
+		const persisted = Array.from(this.entries.entries())
+			.sort(([, a], [, b]) => b.storedAt - a.storedAt)
+			.slice(0, ResponseCache.MAX_PERSISTED_ENTRIES);
+
+		try {
+			await vscode.workspace.fs.createDirectory(this.storageUri);
+			await vscode.workspace.fs.writeFile(
+				this.fileUri(),
+				Buffer.from(JSON.stringify(persisted), "utf8"),
+			);
+		} catch (error) {
+			logger.warn(`Failed to persist Spotify response cache: ${error}`);
+		}
+	}
+
+	private fileUri(): vscode.Uri {
+		return vscode.Uri.joinPath(this.storageUri!, ResponseCache.FILE_NAME);
+	}
+
+	/**
+	 * Writes pending changes to disk right away.
+	 * @returns Resolves once the cache is saved.
+	 */
+	async dispose(): Promise<void> {
+		this._onDidRevalidate.dispose();
+		if (this.saveTimer) {
+			clearTimeout(this.saveTimer);
+			this.saveTimer = undefined;
+			await this.save();
+		}
+	}
+}
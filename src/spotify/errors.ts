@@ -0,0 +1,143 @@
+import { SpotifyError } from "../types/spotify";
+
+/**
+ * Base class for every error raised by SpotifyApi.
+ * `status` is the HTTP status (undefined for network failures) and `reason`
+ * the machine-readable reason Spotify includes for player errors.
+ */
+export class SpotifyApiError extends Error {
+	constructor(
+		message: string,
+		public readonly status?: number,
+		public readonly reason?: string,
+	) {
+		super(message);
+		this.name = new.target.name;
+	}
+}
+
+/**
+ * Playback commands need a device with Spotify open, and none is active.
+ */
+export class NoActiveDeviceError extends SpotifyApiError {}
+
+/**
+ * The endpoint is reserved for Spotify Premium accounts.
+ */
+export class PremiumRequiredError extends SpotifyApiError {}
+
+/**
+ * The target device doesn't let Spotify change its volume (e.g. some
+ * speakers and phones).
+ */
+export class VolumeControlDisallowedError extends SpotifyApiError {}
+
+/**
+ * The requested resource doesn't exist or isn't available to the user.
+ */
+export class NotFoundError extends SpotifyApiError {}
+
+/**
+ * Spotify is throttling requests. `retryAfter` is in seconds.
+ */
+export class RateLimitedError extends SpotifyApiError {
+	constructor(
+		message: string,
+		public readonly retryAfter: number,
+	) {
+		super(message, 429);
+	}
+}
+
+/**
+ * The access token was rejected even after a refresh.
+ */
+export class UnauthorizedError extends SpotifyApiError {}
+
+/**
+ * Spotify couldn't be reached at all (offline, DNS, TLS...).
+ */
+export class NetworkError extends SpotifyApiError {}
+
+/**
+ * Spotify answered, but the payload doesn't have the expected shape.
+ */
+export class InvalidResponseError extends SpotifyApiError {}
+
+/**
+ * Raised when the active session wasn't granted the scopes a request needs.
+ * Carries the missing scopes so the user can be asked to grant just those.
+ */
+export class InsufficientScopeError extends SpotifyApiError {
+	constructor(public readonly missingScopes: readonly string[]) {
+		super(
+			`Missing Spotify permissions: ${missingScopes.join(", ")}. Please grant access and try again.`,
+			403,
+		);
+	}
+}
+
+/**
+ * Maps a failed Spotify Web API response to the matching error class.
+ * @param status The HTTP status code.
+ * @param body The parsed response body, if it was JSON.
+ * @param retryAfter Optional: The Retry-After header value, in seconds.
+ * @returns The error to throw.
+ */
+export function toSpotifyApiError(
+	status: number,
+	body: Partial<SpotifyError> | undefined,
+	retryAfter?: number,
+): SpotifyApiError {
+	const message = body?.error?.message || `HTTP ${status}`;
+	const reason = body?.error?.reason;
+
+	if (reason === "NO_ACTIVE_DEVICE" || /no active device/i.test(message)) {
+		return new NoActiveDeviceError(
+			`No active device found: ${message}`,
+			status,
+			reason,
+		);
+	}
+	if (reason === "PREMIUM_REQUIRED" || /premium/i.test(message)) {
+		return new PremiumRequiredError(
+			`Spotify Premium required: ${message}`,
+			status,
+			reason,
+		);
+	}
+
+	if (reason === "VOLUME_CONTROL_DISALLOW") {
+		return new VolumeControlDisallowedError(
+			`Volume control not supported on this device: ${message}`,
+			status,
+			reason,
+		);
+	}
+
+	switch (status) {
+		case 401:
+			return new UnauthorizedError(
+				`Unauthorized Spotify API request: ${message}`,
+				status,
+				reason,
+			);
+		case 404:
+			return new NotFoundError(
+				`Spotify resource not found: ${message}`,
+				status,
+				reason,
+			);
+		case 429:
+			return new RateLimitedError(
+				`Spotify API rate limit exceeded: ${message}`,
+				retryAfter ?? 1,
+			);
+		default:
+			return new SpotifyApiError(
+				`Spotify API request failed: ${message}`,
+				status,
+				reason,
+			);
+	}
+}
@@ -0,0 +1,94 @@
+import * as vscode from "vscode";
+import { SpotifyApi } from "./api";
+
+/**
+ * Whether tracks are saved in the user's Liked Songs, as far as Xilie knows.
+ * Lookups are batched and remembered, so every tree, the status bar and the
+ * Now Playing view can show a liked indicator without asking Spotify for the
+ * same track twice. Changes made through Xilie are reflected right away.
+ */
+export class LikedTracks implements vscode.Disposable {
+	// Spotify checks, saves and removes at most this many tracks per request
+	private static readonly BATCH_SIZE = 50;
+
+	private _onDidChange = new vscode.EventEmitter<string[]>();
+	/**
+	 * Fires with the IDs of the tracks whose liked state changed or was
+	 * forgotten. Lookups don't fire, callers await `check` instead.
+	 */
+	readonly onDidChange: vscode.Event<string[]> = this._onDidChange.event;
+
+	private liked = new Map<string, boolean>();
+
+	constructor(private readonly spotifyApi: SpotifyApi) {}
+
+	/**
+	 * @param trackId The ID of the track.
+	 * @returns Whether the track is liked, or undefined if it wasn't checked yet.
+	 */
+	public get(trackId: string): boolean | undefined {
+		return this.liked.get(trackId);
+	}
+
+	/**
+	 * Looks up the tracks whose liked state isn't known yet, in batches.
+	 * @param trackIds The IDs of the tracks, duplicates are fine.
+	 */
+	public async check(trackIds: string[]): Promise<void> {
+		const unknown = [...new Set(trackIds)].filter((id) => !this.liked.has(id));
+		for (const batch of this.batches(unknown)) {
+			const flags = await this.spotifyApi.checkSavedTracks(batch);
+			batch.forEach((id, index) => this.liked.set(id, flags[index]));
+		}
+	}
+
+	/**
+	 * Records a liked state learned elsewhere, e.g. from the Liked Songs list.
+	 * @param trackIds The IDs of the tracks.
+	 * @param liked Whether they are liked.
+	 */
+	public remember(trackIds: string[], liked: boolean): void {
+		trackIds.forEach((id) => this.liked.set(id, liked));
+	}
+
+	/**
+	 * Saves tracks to or removes them from Liked Songs.
+	 * @param trackIds The IDs of the tracks.
+	 * @param liked True to save the tracks, false to remove them.
+	 */
+	public async setLiked(trackIds: string[], liked: boolean): Promise<void> {
+		for (const batch of this.batches([...new Set(trackIds)])) {
+			if (liked) {
+				await this.spotifyApi.saveTracks(batch);
+			} else {
+				await this.spotifyApi.removeSavedTracks(batch);
+			}
+			this.remember(batch, liked);
+			this._onDidChange.fire(batch);
+		}
+	}
+
+	/**
+	 * Forgets everything, e.g. after switching accounts or when the library
+	 * may have changed outside Xilie.
+	 */
+	public clear(): void {
+		const ids = [...this.liked.keys()];
+		this.liked.clear();
+		if (ids.length > 0) {
+			this._onDidChange.fire(ids);
+		}
+	}
+
+	private batches(trackIds: string[]): string[][] {
+		const batches: string[][] = [];
+		for (let i = 0; i < trackIds.length; i += LikedTracks.BATCH_SIZE) {
+			batches.push(trackIds.slice(i, i + LikedTracks.BATCH_SIZE));
+		}
+		return batches;
+	}
+
+	dispose(): void {
+		this._onDidChange.dispose();
+	}
+}
@@ -0,0 +1,143 @@
+import * as http from "http";
+import { AddressInfo } from "net";
+import * as vscode from "vscode";
+import { logger } from "../utils/logger";
+
+/**
+ * Short-lived HTTP listener on 127.0.0.1 that receives the OAuth redirect
+ * from Spotify, validates the `state` parameter and hands back the
+ * authorization code.
+ */
+export class LoopbackServer implements vscode.Disposable {
+	private _codePromise: Promise<string>;
+	private _resolve!: (code: string) => void;
+	private _reject!: (error: Error) => void;
+
+	private constructor(
+		private readonly server: http.Server,
+		private readonly expectedState: string,
+		private readonly callbackPath: string,
+	) {
+		this._codePromise = new Promise((resolve, reject) => {
+			this._resolve = resolve;
+			this._reject = reject;
+		});
+		// Cancelling or a bad redirect can reject before anyone waits
+		this._codePromise.catch(() => undefined);
+		this.server.on("request", (req, res) => this.handleRequest(req, res));
+	}
+
+	/**
+	 * Binds a listener to the given port.
+	 * @param port The port to listen on. Must match the port registered in the Spotify app.
+	 * @param expectedState The OAuth `state` sent in the authorization request.
+	 * @param callbackPath Optional: The path Spotify redirects to.
+	 * @returns The started server. Rejects if the port can't be bound.
+	 */
+	public static listen(
+		port: number,
+		expectedState: string,
+		callbackPath: string = "/callback",
+	): Promise<LoopbackServer> {
+		return new Promise((resolve, reject) => {
+			const server = http.createServer();
+			server.once("error", reject);
+			server.listen(port, "127.0.0.1", () => {
+				server.removeListener("error", reject);
+				resolve(new LoopbackServer(server, expectedState, callbackPath));
+			});
+		});
+	}
+
+	/**
+	 * The redirect URI to send to Spotify, e.g. `http://127.0.0.1:8888/callback`.
+	 */
+	public get redirectUri(): string {
+		const { port } = this.server.address() as AddressInfo;
+		return `http://127.0.0.1:${port}${this.callbackPath}`;
+	}
+
+	/**
+	 * Waits for Spotify to redirect back with an authorization code.
+	 * @param timeoutMs How long to wait before giving up.
+	 * @returns The authorization code.
+	 */
+	public waitForCode(timeoutMs: number): Promise<string> {
+		const timer = setTimeout(
+			() =>
+				this._reject(new Error("Timed out waiting for Spotify authorization.")),
+			timeoutMs,
+		);
+		return this._codePromise.finally(() => clearTimeout(timer));
+	}
+
+	/**
+	 * Aborts a pending wait, e.g. when the user cancels sign-in.
+	 */
+	public cancel(): void {
+		this._reject(new Error("Spotify authentication was cancelled."));
+	}
+
+	private handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+		const url = new URL(req.url ?? "/", "http://127.0.0.1");
+		if (url.pathname !== this.callbackPath) {
+			res.writeHead(404).end();
+			return;
+		}
+
+		const state = url.searchParams.get("state");
+		const code = url.searchParams.get("code");
+		const error = url.searchParams.get("error");
+
+		if (state !== this.expectedState) {
+			// Ignore forged or stale redirects but keep waiting for the real one
+			logger.warn("Ignoring OAuth callback with mismatched state");
+			this.respond(
+				res,
+				400,
+				"Invalid authorization state. Please retry from VS Code.",
+			);
+			return;
+		}
+
+		if (error) {
+			this.respond(
+				res,
+				400,
+				"Authorization was not granted. You can close this tab.",
+			);
+			this._reject(new Error(`Spotify authorization error: ${error}`));
+			return;
+		}
+
+		if (!code) {
+			this.respond(
+				res,
+				400,
+				"No authorization code received. Please retry from VS Code.",
+			);
+			this._reject(new Error("No authorization code received from Spotify."));
+			return;
+		}
+
+		this.respond(
+			res,
+			200,
+			"Xilie is now connected to Spotify. You can close this tab and return to VS Code.",
+		);
+		this._resolve(code);
+	}
+
+	private respond(res: http.ServerResponse, status: number, message: string) {
+		res.writeHead(status, { "Content-Type": "text/html; charset=utf-8" });
+		res.end(
+			`<!DOCTYPE html><html><head><title>Xilie</title></head><body style="font-family: sans-serif; text-align: center; padding-top: 4em;"><p>${message}</p></body></html>`,
+		);
+	}
+
+	dispose(): void {
+		this.server.close();
+		// Don't leave keep-alive browser connections holding the port
+		this.server.closeAllConnections();
+	}
+}
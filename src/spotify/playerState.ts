@@ -0,0 +1,218 @@
+import * as vscode from "vscode";
+import { SpotifyApi } from "./api";
+import { SpotifyAuth } from "./auth";
+import { RequestPriority } from "./scheduler";
+import { logger } from "../utils/logger";
+import {
+	SpotifyDevice,
+	SpotifyPlaybackState,
+	SpotifyTrack,
+} from "../types/spotify";
+
+/**
+ * Single source of truth for what Spotify is playing.
+ * Polls adaptively (every `xilie.refreshInterval` while playing, much less
+ * often when paused or idle, not at all while the window is unfocused, and
+ * right when the current track should end) and reports changes through
+ * events the status bar, views and commands subscribe to.
+ */
+export class PlayerState implements vscode.Disposable {
+	// Poll at least this rarely while paused or idle
+	private static readonly IDLE_INTERVAL = 30 * 1000;
+	// Margin after the expected end of a track before checking what's next
+	private static readonly TRACK_END_MARGIN = 500;
+	// Never check for the next track sooner than this
+	private static readonly TRACK_END_MIN_DELAY = 2000;
+
+	private _onDidChangeState =
+		new vscode.EventEmitter<SpotifyPlaybackState | null>();
+	/**
+	 * Fires after every poll with the latest state, null when nothing is
+	 * playing or the user is signed out.
+	 */
+	readonly onDidChangeState: vscode.Event<SpotifyPlaybackState | null> =
+		this._onDidChangeState.event;
+
+	private _onDidChangeTrack = new vscode.EventEmitter<SpotifyTrack | null>();
+	/**
+	 * Fires when a different track starts, or playback stops altogether.
+	 */
+	readonly onDidChangeTrack: vscode.Event<SpotifyTrack | null> =
+		this._onDidChangeTrack.event;
+
+	private _onDidChangePlayState = new vscode.EventEmitter<boolean>();
+	/**
+	 * Fires when playback is paused or resumed, with whether it is playing.
+	 */
+	readonly onDidChangePlayState: vscode.Event<boolean> =
+		this._onDidChangePlayState.event;
+
+	private _onDidChangeDevice = new vscode.EventEmitter<SpotifyDevice | null>();
+	/**
+	 * Fires when playback moves to another device, or no device is active.
+	 */
+	readonly onDidChangeDevice: vscode.Event<SpotifyDevice | null> =
+		this._onDidChangeDevice.event;
+
+	private _current: SpotifyPlaybackState | null = null;
+	private pending: Promise<SpotifyPlaybackState | null> | undefined;
+	private timer: NodeJS.Timeout | undefined;
+	// The track whose end the next poll was moved up for, if any
+	private trackEndPolled: string | undefined;
+	private focused = vscode.window.state.focused;
+	private disposed = false;
+	private readonly disposables: vscode.Disposable[] = [];
+	// Polls yield to user commands, explicit refreshes don't
+	private readonly backgroundApi: SpotifyApi;
+
+	constructor(
+		private readonly spotifyApi: SpotifyApi,
+		private readonly spotifyAuth: SpotifyAuth,
+	) {
+		this.backgroundApi = spotifyApi.withPriority(RequestPriority.Background);
+		this.disposables.push(
+			this._onDidChangeState,
+			this._onDidChangeTrack,
+			this._onDidChangePlayState,
+			this._onDidChangeDevice,
+			// Nobody is looking while VS Code is in the background
+			vscode.window.onDidChangeWindowState((e) => {
+				this.focused = e.focused;
+				if (e.focused) {
+					this.poll();
+				} else {
+					this.clearTimer();
+				}
+			}),
+			vscode.workspace.onDidChangeConfiguration((e) => {
+				if (e.affectsConfiguration("xilie.refreshInterval")) {
+					this.schedule();
+				}
+			}),
+		);
+
+		this.poll();
+	}
+
+	/**
+	 * The state from the latest poll.
+	 */
+	public get current(): SpotifyPlaybackState | null {
+		return this._current;
+	}
+
+	/**
+	 * Fetches the playback state now, e.g. after a command changed it, and
+	 * notifies subscribers. Concurrent calls share one request.
+	 * @returns The fresh state. Rejects with the API error if the request failed.
+	 */
+	public refresh(): Promise<SpotifyPlaybackState | null> {
+		return this.request(this.spotifyApi);
+	}
+
+	/**
+	 * Like `refresh`, without waiting for the result, e.g. right after a
+	 * command changed playback. Errors are logged.
+	 */
+	public requestUpdate(): void {
+		this.refresh().catch((error) =>
+			logger.warn(
+				`Failed to refresh playback state: ${error.message || error}`,
+			),
+		);
+	}
+
+	private request(api: SpotifyApi): Promise<SpotifyPlaybackState | null> {
+		if (!this.pending) {
+			this.pending = this.fetch(api).finally(() => {
+				this.pending = undefined;
+				this.schedule();
+			});
+		}
+		return this.pending;
+	}
+
+	private async fetch(api: SpotifyApi): Promise<SpotifyPlaybackState | null> {
+		const state = (await this.spotifyAuth.isAuthenticated())
+			? await api.getPlaybackState()
+			: null;
+		this.apply(state);
+		return state;
+	}
+
+	/**
+	 * Refreshes in the background, logging instead of raising errors.
+	 */
+	private poll(): void {
+		this.request(this.backgroundApi).catch((error) =>
+			logger.warn(`Failed to poll playback state: ${error.message || error}`),
+		);
+	}
+
+	private apply(state: SpotifyPlaybackState | null): void {
+		const previous = this._current;
+		this._current = state;
+
+		if (previous?.item?.uri !== state?.item?.uri) {
+			this._onDidChangeTrack.fire(state?.item ?? null);
+		}
+		if ((previous?.is_playing ?? false) !== (state?.is_playing ?? false)) {
+			this._onDidChangePlayState.fire(state?.is_playing ?? false);
+		}
+		if (previous?.device?.id !== state?.device?.id) {
+			this._onDidChangeDevice.fire(state?.device ?? null);
+		}
+		this._onDidChangeState.fire(state);
+	}
+
+	/**
+	 * Plans the next poll based on what is playing.
+	 */
+	private schedule(): void {
+		this.clearTimer();
+		if (this.disposed || !this.focused) {
+			return;
+		}
+
+		const interval = vscode.workspace
+			.getConfiguration("xilie")
+			.get<number>("refreshInterval", 5000);
+		const state = this._current;
+
+		let delay = state?.is_playing
+			? interval
+			: Math.max(interval, PlayerState.IDLE_INTERVAL);
+		if (state?.is_playing && state.item) {
+			// Catch the next track as soon as it starts
+			const remaining = state.item.duration_ms - state.progress_ms;
+			if (remaining >= 0 && remaining < delay) {
+				// Only once per track: Spotify can keep reporting the end of a track
+				// for a while, keep the usual interval until it moves on
+				if (this.trackEndPolled !== state.item.uri) {
+					this.trackEndPolled = state.item.uri;
+					delay = Math.max(
+						remaining + PlayerState.TRACK_END_MARGIN,
+						PlayerState.TRACK_END_MIN_DELAY,
+					);
+				}
+			} else {
+				this.trackEndPolled = undefined;
+			}
+		}
+
+		this.timer = setTimeout(() => this.poll(), delay);
+	}
+
+	private clearTimer(): void {
+		if (this.timer) {
+			clearTimeout(this.timer);
+			this.timer = undefined;
+		}
+	}
+
+	dispose(): void {
+		this.disposed = true;
+		this.clearTimer();
+		this.disposables.forEach((disposable) => disposable.dispose());
+	}
+}
@@ -0,0 +1,122 @@
+import * as vscode from "vscode";
+import { logger } from "../utils/logger";
+
+/**
+ * Request priorities, lowest value runs first.
+ */
+export enum RequestPriority {
+	User = 0, // Playback commands the user is waiting on
+	Normal = 1, // Other foreground requests, e.g. search
+	Background = 2, // Polling and periodic tree refreshes
+}
+
+interface QueuedRequest {
+	run: () => Promise<unknown>;
+	priority: RequestPriority;
+	resolve: (value: any) => void;
+	reject: (reason: any) => void;
+}
+
+/**
+ * Shared queue every Spotify Web API request goes through.
+ * Limits how many requests are in flight, runs higher priority requests
+ * first, and holds everything back while Spotify's Retry-After cooldown is
+ * in effect so independent callers don't each hammer the API after a 429.
+ */
+export class RequestScheduler implements vscode.Disposable {
+	private readonly queue: QueuedRequest[] = [];
+	private active = 0;
+	private cooldownUntil = 0;
+	private cooldownTimer: NodeJS.Timeout | undefined;
+	private disposed = false;
+
+	constructor(private readonly maxConcurrent: number = 4) {}
+
+	/**
+	 * Queues a request.
+	 * @param run Performs the request.
+	 * @param priority The request's priority.
+	 * @returns The request's result, once it has run.
+	 */
+	public schedule<T>(
+		run: () => Promise<T>,
+		priority: RequestPriority,
+	): Promise<T> {
+		return new Promise<T>((resolve, reject) => {
+			if (this.disposed) {
+				reject(new Error("Spotify requests have been stopped"));
+				return;
+			}
+			// Keep the queue ordered by priority, FIFO within a priority
+			const index = this.queue.findIndex(
+				(queued) => queued.priority > priority,
+			);
+			const request = { run, priority, resolve, reject };
+			if (index === -1) {
+				this.queue.push(request);
+			} else {
+				this.queue.splice(index, 0, request);
+			}
+			this.pump();
+		});
+	}
+
+	/**
+	 * Pauses all requests, e.g. after Spotify answered 429 with Retry-After.
+	 * @param seconds How long to hold requests back.
+	 */
+	public cooldown(seconds: number): void {
+		const until = Date.now() + seconds * 1000;
+		if (until <= this.cooldownUntil) {
+			return;
+		}
+		logger.warn(`Rate limited by Spotify, pausing requests for ${seconds}s`);
+		this.cooldownUntil = until;
+	}
+
+	/**
+	 * Starts queued requests while there is capacity and no cooldown.
+	 */
+	private pump(): void {
+		if (this.disposed) {
+			return;
+		}
+		const wait = this.cooldownUntil - Date.now();
+		if (wait > 0) {
+			if (!this.cooldownTimer) {
+				this.cooldownTimer = setTimeout(() => {
+					this.cooldownTimer = undefined;
+					this.pump();
+				}, wait);
+			}
+			return;
+		}
+
+		while (this.active < this.maxConcurrent && this.queue.length > 0) {
+			const request = this.queue.shift()!;
+			this.active++;
+			request
+				.run()
+				.then(request.resolve, request.reject)
+				.finally(() => {
+					this.active--;
+					this.pump();
+				});
+		}
+	}
+
+	/**
+	 * Stops the cooldown timer and fails requests that haven't started yet,
+	 * so nothing outlives the extension. Requests in flight still finish.
+	 */
+	dispose(): void {
+		this.disposed = true;
+		if (this.cooldownTimer) {
+			clearTimeout(this.cooldownTimer);
+			this.cooldownTimer = undefined;
+		}
+		for (const request of this.queue.splice(0)) {
+			request.reject(new Error("Spotify requests have been stopped"));
+		}
+	}
+}
@@ -0,0 +1,298 @@
+import { InvalidResponseError } from "./errors";
+import {
+	SpotifyAlbum,
+	SpotifyArtist,
+	SpotifyArtistTopTracksResponse,
+	SpotifyCursorPagingObject,
+	SpotifyDevice,
+	SpotifyDevicesResponse,
+	SpotifyFollowedArtistsResponse,
+	SpotifyPagingObject,
+	SpotifyPlayHistory,
+	SpotifyPlaybackState,
+	SpotifyPlaylist,
+	SpotifyPlaylistTrack,
+	SpotifyQueue,
+	SpotifyRelatedArtistsResponse,
+	SpotifySavedAlbum,
+	SpotifySavedTrack,
+	SpotifySearchResults,
+	SpotifySimplifiedTrack,
+	SpotifyTrack,
+	SpotifyUser,
+} from "../types/spotify";
+
+/**
+ * Runtime checks for Spotify Web API responses.
+ * Only the fields Xilie relies on are checked; everything else is passed
+ * through as-is. A failed check throws InvalidResponseError naming the
+ * offending field, e.g. `response.items[3].track.name`.
+ */
+
+type Validator<T> = (value: unknown, path: string) => T;
+
+function fail(path: string, expected: string): never {
+	throw new InvalidResponseError(
+		`Malformed Spotify response: expected ${path} to be ${expected}`,
+	);
+}
+
+function object(value: unknown, path: string): Record<string, unknown> {
+	if (typeof value !== "object" || value === null || Array.isArray(value)) {
+		fail(path, "an object");
+	}
+	return value as Record<string, unknown>;
+}
+
+function string(value: unknown, path: string): string {
+	if (typeof value !== "string") {
+		fail(path, "a string");
+	}
+	return value;
+}
+
+function array<T>(value: unknown, path: string, item: Validator<T>): T[] {
+	if (!Array.isArray(value)) {
+		fail(path, "an array");
+	}
+	return value.map((entry, index) => item(entry, `${path}[${index}]`));
+}
+
+function nullable<T>(item: Validator<T>): Validator<T | null> {
+	return (value, path) => (value === null ? null : item(value, path));
+}
+
+/**
+ * Checks the fields every Spotify object shown in the UI has.
+ * @param local Whether the object belongs to a local file, whose URI may be
+ * null.
+ */
+function named(
+	value: unknown,
+	path: string,
+	local = false,
+): Record<string, unknown> {
+	const o = object(value, path);
+	string(o.name, `${path}.name`);
+	if (!local || o.uri !== null) {
+		string(o.uri, `${path}.uri`);
+	}
+	return o;
+}
+
+const artist: Validator<SpotifyArtist> = (value, path) =>
+	named(value, path) as unknown as SpotifyArtist;
+
+const localArtist: Validator<SpotifyArtist> = (value, path) =>
+	named(value, path, true) as unknown as SpotifyArtist;
+
+const album: Validator<SpotifyAlbum> = (value, path) => {
+	const o = named(value, path);
+	if (o.artists !== undefined) {
+		array(o.artists, `${path}.artists`, artist);
+	}
+	return o as unknown as SpotifyAlbum;
+};
+
+const track: Validator<SpotifyTrack> = (value, path) => {
+	const o = object(value, path);
+	// Local files in playlists have null IDs and URIs for the track, its
+	// artists and album
+	const local = o.is_local === true;
+	named(o, path, local);
+	array(o.artists, `${path}.artists`, local ? localArtist : artist);
+	return o as unknown as SpotifyTrack;
+};
+
+const playlist: Validator<SpotifyPlaylist> = (value, path) => {
+	const o = named(value, path);
+	string(o.id, `${path}.id`);
+	return o as unknown as SpotifyPlaylist;
+};
+
+const device: Validator<SpotifyDevice> = (value, path) => {
+	const o = object(value, path);
+	string(o.name, `${path}.name`);
+	return o as unknown as SpotifyDevice;
+};
+
+const playlistTrack: Validator<SpotifyPlaylistTrack> = (value, path) => {
+	const o = object(value, path);
+	nullable(track)(o.track, `${path}.track`);
+	return o as unknown as SpotifyPlaylistTrack;
+};
+
+const savedTrack: Validator<SpotifySavedTrack> = (value, path) => {
+	const o = object(value, path);
+	track(o.track, `${path}.track`);
+	return o as unknown as SpotifySavedTrack;
+};
+
+const savedAlbum: Validator<SpotifySavedAlbum> = (value, path) => {
+	const o = object(value, path);
+	album(o.album, `${path}.album`);
+	return o as unknown as SpotifySavedAlbum;
+};
+
+const playHistory: Validator<SpotifyPlayHistory> = (value, path) => {
+	const o = object(value, path);
+	track(o.track, `${path}.track`);
+	return o as unknown as SpotifyPlayHistory;
+};
+
+function paging<T>(item: Validator<T>): Validator<SpotifyPagingObject<T>> {
+	return (value, path) => {
+		const o = object(value, path);
+		array(o.items, `${path}.items`, item);
+		return o as unknown as SpotifyPagingObject<T>;
+	};
+}
+
+function cursorPaging<T>(
+	item: Validator<T>,
+): Validator<SpotifyCursorPagingObject<T>> {
+	return (value, path) => {
+		const o = object(value, path);
+		array(o.items, `${path}.items`, item);
+		return o as unknown as SpotifyCursorPagingObject<T>;
+	};
+}
+
+export function validateSavedFlags(value: unknown): boolean[] {
+	return array(value, "response", (entry, path) => {
+		if (typeof entry !== "boolean") {
+			fail(path, "a boolean");
+		}
+		return entry;
+	});
+}
+
+export function validateUser(value: unknown): SpotifyUser {
+	const o = object(value, "response");
+	string(o.id, "response.id");
+	return o as unknown as SpotifyUser;
+}
+
+export function validateTrack(value: unknown): SpotifyTrack {
+	return track(value, "response");
+}
+
+export function validatePlaylist(value: unknown): SpotifyPlaylist {
+	return playlist(value, "response");
+}
+
+export function validateSnapshot(value: unknown): string {
+	const o = object(value, "response");
+	return string(o.snapshot_id, "response.snapshot_id");
+}
+
+export function validatePlaylistPage(
+	value: unknown,
+): SpotifyPagingObject<SpotifyPlaylist> {
+	return paging(playlist)(value, "response");
+}
+
+export function validateAlbumPage(
+	value: unknown,
+): SpotifyPagingObject<SpotifyAlbum> {
+	return paging(album)(value, "response");
+}
+
+export function validatePlaylistTrackPage(
+	value: unknown,
+): SpotifyPagingObject<SpotifyPlaylistTrack> {
+	return paging(playlistTrack)(value, "response");
+}
+
+export function validateSavedTrackPage(
+	value: unknown,
+): SpotifyPagingObject<SpotifySavedTrack> {
+	return paging(savedTrack)(value, "response");
+}
+
+export function validateSavedAlbumPage(
+	value: unknown,
+): SpotifyPagingObject<SpotifySavedAlbum> {
+	return paging(savedAlbum)(value, "response");
+}
+
+export function validateAlbumTrackPage(
+	value: unknown,
+): SpotifyPagingObject<SpotifySimplifiedTrack> {
+	// Album tracks have the same required fields as full tracks
+	return paging(track)(value, "response");
+}
+
+export function validateRecentlyPlayed(
+	value: unknown,
+): SpotifyCursorPagingObject<SpotifyPlayHistory> {
+	return cursorPaging(playHistory)(value, "response");
+}
+
+export function validateFollowedArtists(
+	value: unknown,
+): SpotifyFollowedArtistsResponse {
+	const o = object(value, "response");
+	cursorPaging(artist)(o.artists, "response.artists");
+	return o as unknown as SpotifyFollowedArtistsResponse;
+}
+
+export function validateArtistTopTracks(
+	value: unknown,
+): SpotifyArtistTopTracksResponse {
+	const o = object(value, "response");
+	array(o.tracks, "response.tracks", track);
+	return o as unknown as SpotifyArtistTopTracksResponse;
+}
+
+export function validateRelatedArtists(
+	value: unknown,
+): SpotifyRelatedArtistsResponse {
+	const o = object(value, "response");
+	array(o.artists, "response.artists", artist);
+	return o as unknown as SpotifyRelatedArtistsResponse;
+}
+
+export function validateDevices(value: unknown): SpotifyDevicesResponse {
+	const o = object(value, "response");
+	array(o.devices, "response.devices", device);
+	return o as unknown as SpotifyDevicesResponse;
+}
+
+export function validatePlaybackState(value: unknown): SpotifyPlaybackState {
+	const o = object(value, "response");
+	device(o.device, "response.device");
+	// Episodes and ads have a different shape, only tracks are checked
+	if (o.currently_playing_type === "track") {
+		nullable(track)(o.item, "response.item");
+	}
+	return o as unknown as SpotifyPlaybackState;
+}
+
+export function validateQueue(value: unknown): SpotifyQueue {
+	const o = object(value, "response");
+	// Episodes have no artists, only check what tracks and episodes share
+	const item: Validator<SpotifyTrack> = (entry, path) => {
+		const o = object(entry, path);
+		return named(o, path, o.is_local === true) as unknown as SpotifyTrack;
+	};
+	nullable(item)(o.currently_playing ?? null, "response.currently_playing");
+	array(o.queue, "response.queue", item);
+	return o as unknown as SpotifyQueue;
+}
+
+export function validateSearchResults(value: unknown): SpotifySearchResults {
+	const o = object(value, "response");
+	const checks: [keyof SpotifySearchResults, Validator<unknown>][] = [
+		["tracks", track],
+		["artists", artist],
+		["albums", album],
+		["playlists", playlist],
+	];
+	for (const [key, item] of checks) {
+		if (o[key] !== undefined) {
+			paging(nullable(item))(o[key], `response.${key}`);
+		}
+	}
+	return o as unknown as SpotifySearchResults;
+}
@@ -0,0 +1,64 @@
+import * as assert from "assert";
+import { SpotifyApi } from "../spotify/api";
+import { SpotifyAuth } from "../spotify/auth";
+import { ResponseCache } from "../spotify/cache";
+import { RateLimitedError } from "../spotify/errors";
+import { RequestScheduler } from "../spotify/scheduler";
+
+/**
+ * Records cooldowns instead of waiting them out.
+ */
+class RecordingScheduler extends RequestScheduler {
+	cooldowns: number[] = [];
+
+	cooldown(seconds: number): void {
+		this.cooldowns.push(seconds);
+	}
+}
+
+suite("SpotifyApi", () => {
+	const originalFetch = globalThis.fetch;
+	// Signed in, with the granted scopes not recorded
+	const auth = {
+		getAccessToken: async () => "token",
+		getGrantedScopes: async () => [],
+		getActiveAccount: async () => ({ id: "user", label: "User" }),
+	} as unknown as SpotifyAuth;
+
+	teardown(() => {
+		globalThis.fetch = originalFetch;
+	});
+
+	test("starts the cooldown when every attempt is rate limited", async () => {
+		let requests = 0;
+		globalThis.fetch = async () => {
+			requests++;
+			return new Response(
+				JSON.stringify({
+					error: { status: 429, message: "Too many requests" },
+				}),
+				{ status: 429, headers: { "Retry-After": "7" } },
+			);
+		};
+		const scheduler = new RecordingScheduler();
+		const api = new SpotifyApi(auth, new ResponseCache(), scheduler);
+
+		await assert.rejects(api.getAvailableDevices(), RateLimitedError);
+		// Including the last attempt, which isn't retried
+		assert.strictEqual(requests, 4);
+		assert.deepStrictEqual(scheduler.cooldowns, [7, 7, 7, 7]);
+	});
+
+	test("retries after a rate limited attempt", async () => {
+		let requests = 0;
+		globalThis.fetch = async () =>
+			++requests === 1
+				? new Response("{}", { status: 429, headers: { "Retry-After": "1" } })
+				: new Response(JSON.stringify({ devices: [] }), { status: 200 });
+		const scheduler = new RecordingScheduler();
+		const api = new SpotifyApi(auth, new ResponseCache(), scheduler);
+
+		assert.deepStrictEqual(await api.getAvailableDevices(), { devices: [] });
+		assert.deepStrictEqual(scheduler.cooldowns, [1]);
+	});
+});
@@ -0,0 +1,56 @@
+import * as assert from "assert";
+import { ResponseCache } from "../spotify/cache";
+
+suite("ResponseCache", () => {
+	test("drops responses invalidated while in flight", async () => {
+		const cache = new ResponseCache();
+		let respond!: () => void;
+		const responded = new Promise<void>((resolve) => {
+			respond = resolve;
+		});
+
+		const request = cache.dedupe("user:/me/playlists", async (generation) => {
+			await responded;
+			cache.set("user:/me/playlists", ["stale"], 60000, undefined, generation);
+		});
+		cache.invalidate("/me/playlists");
+		respond();
+		await request;
+
+		assert.strictEqual(await cache.get("user:/me/playlists"), undefined);
+	});
+
+	test("keeps responses when other endpoints are invalidated", async () => {
+		const cache = new ResponseCache();
+		await cache.dedupe("user:/me/playlists", async (generation) => {
+			cache.invalidate("/me/tracks");
+			cache.set("user:/me/playlists", ["fresh"], 60000, undefined, generation);
+		});
+
+		const entry = await cache.get("user:/me/playlists");
+		assert.deepStrictEqual(entry?.body, ["fresh"]);
+	});
+
+	test("doesn't share requests started before an invalidation", async () => {
+		const cache = new ResponseCache();
+		let release!: () => void;
+		const released = new Promise<void>((resolve) => {
+			release = resolve;
+		});
+
+		const first = cache.dedupe("user:/me", async () => {
+			await released;
+			return "first";
+		});
+		assert.strictEqual(
+			cache.dedupe("user:/me", async () => "shared"),
+			first,
+		);
+
+		cache.invalidate();
+		const second = cache.dedupe("user:/me", async () => "second");
+		release();
+		assert.strictEqual(await first, "first");
+		assert.strictEqual(await second, "second");
+	});
+});
@@ -25,10 +25,54 @@ suite("Xilie Extension Test Suite", () => {
 		const expectedCommands = [
 			"xilie.authenticate",
 			"xilie.signOut",
+			"xilie.signOutEverywhere",
+			"xilie.switchAccount",
 			"xilie.showXilie",
 			"xilie.playPause",
 			"xilie.nextTrack",
 			"xilie.previousTrack",
+			"xilie.addToQueue",
+			"xilie.refreshLikedSongs",
+			"xilie.refreshSavedAlbums",
+			"xilie.loadMore",
+			"xilie.toggleLike",
+			"xilie.saveToLikedSongs",
+			"xilie.removeFromLikedSongs",
+			"xilie.createPlaylist",
+			"xilie.addCurrentTrackToPlaylist",
+			"xilie.removeFromPlaylist",
+			"xilie.moveTrackUp",
+			"xilie.moveTrackDown",
+			"xilie.renamePlaylist",
+			"xilie.editPlaylistDescription",
+			"xilie.filterPlaylists",
+			"xilie.clearPlaylistsFilter",
+			"xilie.filterArtists",
+			"xilie.clearArtistsFilter",
+			"xilie.play",
+			"xilie.shufflePlay",
+			"xilie.goToAlbum",
+			"xilie.goToArtist",
+			"xilie.showArtistAlbums",
+			"xilie.followArtist",
+			"xilie.unfollowArtist",
+			"xilie.unfollowPlaylist",
+			"xilie.copyLink",
+			"xilie.copyUri",
+			"xilie.openInBrowser",
+			"xilie.transferPlayback",
+			"xilie.setDeviceVolume",
+			"xilie.playSelection",
+			"xilie.addSelectionToPlaylist",
+			"xilie.volumeUp",
+			"xilie.volumeDown",
+			"xilie.toggleMute",
+			"xilie.setVolume",
+			"xilie.toggleShuffle",
+			"xilie.cycleRepeat",
+			"xilie.seekForward",
+			"xilie.seekBackward",
+			"xilie.seekTo",
 		];
 
 		for (const command of expectedCommands) {
@@ -0,0 +1,49 @@
+import * as assert from "assert";
+import { formatDuration, parseDuration } from "../utils/formatter";
+
+suite("Durations", () => {
+	test("formats durations as m:ss", () => {
+		assert.strictEqual(formatDuration(0), "0:00");
+		assert.strictEqual(formatDuration(9000), "0:09");
+		assert.strictEqual(formatDuration(90000), "1:30");
+		assert.strictEqual(formatDuration(59 * 60000 + 59999), "59:59");
+	});
+
+	test("formats durations of an hour or more as h:mm:ss", () => {
+		assert.strictEqual(formatDuration(3600000), "1:00:00");
+		assert.strictEqual(formatDuration(3600000 + 2 * 60000 + 30000), "1:02:30");
+	});
+
+	test("rounds partial seconds down", () => {
+		assert.strictEqual(formatDuration(1999), "0:01");
+	});
+
+	test("parses seconds, m:ss and h:mm:ss", () => {
+		assert.strictEqual(parseDuration("90"), 90000);
+		assert.strictEqual(parseDuration("1:30"), 90000);
+		assert.strictEqual(parseDuration("1:02:30"), 3750000);
+		assert.strictEqual(parseDuration(" 0:05 "), 5000);
+		assert.strictEqual(parseDuration("0"), 0);
+	});
+
+	test("rejects text that isn't a duration", () => {
+		for (const value of [
+			"",
+			" ",
+			"abc",
+			"1:",
+			":30",
+			"1.5",
+			"-10",
+			"1:2:3:4",
+		]) {
+			assert.strictEqual(parseDuration(value), undefined, value);
+		}
+	});
+
+	test("reads back what it formats", () => {
+		for (const ms of [0, 61000, 3599000, 7384000]) {
+			assert.strictEqual(parseDuration(formatDuration(ms)), ms);
+		}
+	});
+});
@@ -0,0 +1,43 @@
+import * as assert from "assert";
+import { fuzzyMatch } from "../utils/fuzzy";
+
+suite("fuzzyMatch", () => {
+	test("matches letters in order, not necessarily adjacent", () => {
+		assert.ok(fuzzyMatch("dark", "Dark Side of the Moon"));
+		assert.ok(fuzzyMatch("dsm", "Dark Side of the Moon"));
+		assert.ok(fuzzyMatch("drk sd", "Dark Side of the Moon"));
+	});
+
+	test("requires every word of the query", () => {
+		assert.ok(!fuzzyMatch("dark wall", "Dark Side of the Moon"));
+	});
+
+	test("matches the words of the query in any order", () => {
+		assert.ok(fuzzyMatch("moon dark", "Dark Side of the Moon"));
+	});
+
+	test("rejects letters out of order", () => {
+		assert.ok(!fuzzyMatch("noom", "Moon"));
+		assert.ok(!fuzzyMatch("kard", "Dark"));
+	});
+
+	test("ignores case and accents", () => {
+		assert.ok(fuzzyMatch("beyonce", "Beyoncé"));
+		assert.ok(fuzzyMatch("BEYONCÉ", "beyonce"));
+	});
+
+	test("matches everything with an empty query", () => {
+		assert.ok(fuzzyMatch("", "Anything"));
+		assert.ok(fuzzyMatch("   ", "Anything"));
+		assert.ok(fuzzyMatch("", ""));
+	});
+
+	test("matches nothing in empty text", () => {
+		assert.ok(!fuzzyMatch("a", ""));
+	});
+
+	test("needs a letter for each repeated letter of the query", () => {
+		assert.ok(fuzzyMatch("oo", "Moon"));
+		assert.ok(!fuzzyMatch("ooo", "Moon"));
+	});
+});
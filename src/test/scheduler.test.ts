@@ -0,0 +1,123 @@
+import * as assert from "assert";
+import { RequestPriority, RequestScheduler } from "../spotify/scheduler";
+
+/**
+ * A request that stays in flight until released.
+ */
+function deferred() {
+	let release!: () => void;
+	const promise = new Promise<void>((resolve) => {
+		release = resolve;
+	});
+	return { promise, release };
+}
+
+suite("RequestScheduler", () => {
+	test("runs higher priority requests first when busy", async () => {
+		const scheduler = new RequestScheduler(1);
+		const order: string[] = [];
+		const blocker = deferred();
+
+		const first = scheduler.schedule(
+			() => blocker.promise,
+			RequestPriority.User,
+		);
+		const queued = [
+			scheduler.schedule(async () => {
+				order.push("background");
+			}, RequestPriority.Background),
+			scheduler.schedule(async () => {
+				order.push("normal");
+			}, RequestPriority.Normal),
+			scheduler.schedule(async () => {
+				order.push("user");
+			}, RequestPriority.User),
+		];
+		blocker.release();
+		await Promise.all([first, ...queued]);
+
+		assert.deepStrictEqual(order, ["user", "normal", "background"]);
+	});
+
+	test("keeps requests of the same priority in order", async () => {
+		const scheduler = new RequestScheduler(1);
+		const order: number[] = [];
+		await Promise.all(
+			[1, 2, 3].map((n) =>
+				scheduler.schedule(async () => {
+					order.push(n);
+				}, RequestPriority.Normal),
+			),
+		);
+
+		assert.deepStrictEqual(order, [1, 2, 3]);
+	});
+
+	test("limits how many requests are in flight", async () => {
+		const scheduler = new RequestScheduler(2);
+		let active = 0;
+		let peak = 0;
+		const run = async () => {
+			active++;
+			peak = Math.max(peak, active);
+			await new Promise((resolve) => setTimeout(resolve, 5));
+			active--;
+		};
+		await Promise.all(
+			Array.from({ length: 6 }, () =>
+				scheduler.schedule(run, RequestPriority.Normal),
+			),
+		);
+
+		assert.strictEqual(peak, 2);
+	});
+
+	test("passes on results and errors, and frees the slot after an error", async () => {
+		const scheduler = new RequestScheduler(1);
+		await assert.rejects(
+			scheduler.schedule(async () => {
+				throw new Error("boom");
+			}, RequestPriority.User),
+			/boom/,
+		);
+		assert.strictEqual(
+			await scheduler.schedule(async () => 42, RequestPriority.User),
+			42,
+		);
+	});
+
+	test("holds every request back during a cooldown", async () => {
+		const scheduler = new RequestScheduler();
+		const start = Date.now();
+		scheduler.cooldown(0.1);
+		await Promise.all([
+			scheduler.schedule(async () => undefined, RequestPriority.User),
+			scheduler.schedule(async () => undefined, RequestPriority.Background),
+		]);
+
+		assert.ok(Date.now() - start >= 90, "requests ran during the cooldown");
+	});
+
+	test("a shorter cooldown doesn't cut a longer one short", async () => {
+		const scheduler = new RequestScheduler();
+		const start = Date.now();
+		scheduler.cooldown(0.1);
+		scheduler.cooldown(0);
+		await scheduler.schedule(async () => undefined, RequestPriority.User);
+
+		assert.ok(Date.now() - start >= 90, "the cooldown was shortened");
+	});
+
+	test("fails queued requests and stops the cooldown when disposed", async () => {
+		const scheduler = new RequestScheduler();
+		scheduler.cooldown(60);
+		const queued = scheduler.schedule(async () => "ran", RequestPriority.User);
+
+		scheduler.dispose();
+		await assert.rejects(queued, /stopped/);
+		await assert.rejects(
+			scheduler.schedule(async () => "ran", RequestPriority.User),
+			/stopped/,
+		);
+	});
+});
@@ -0,0 +1,124 @@
+import * as assert from "assert";
+import { InvalidResponseError } from "../spotify/errors";
+import {
+	validatePlaybackState,
+	validatePlaylistTrackPage,
+	validateQueue,
+	validateSavedFlags,
+	validateSearchResults,
+	validateUser,
+} from "../spotify/validation";
+
+function track(name: string, extra: Record<string, unknown> = {}) {
+	return {
+		name,
+		uri: `spotify:track:${name}`,
+		id: name,
+		artists: [{ name: "Artist", uri: "spotify:artist:a", id: "a" }],
+		is_local: false,
+		...extra,
+	};
+}
+
+// As Spotify lists a local file added to a playlist
+const localTrack = {
+	name: "Demo",
+	uri: null,
+	id: null,
+	artists: [{ name: "Me", uri: null, id: null }],
+	album: { name: "Demos", uri: null, id: null, artists: [] },
+	is_local: true,
+};
+
+/**
+ * Asserts that a value is rejected, naming the offending field.
+ */
+function assertInvalid(run: () => unknown, field: string) {
+	assert.throws(
+		run,
+		(error: Error) =>
+			error instanceof InvalidResponseError && error.message.includes(field),
+	);
+}
+
+suite("Response validation", () => {
+	test("passes valid responses through unchanged", () => {
+		const page = { items: [{ track: track("one") }, { track: null }] };
+		assert.strictEqual(validatePlaylistTrackPage(page), page);
+		assert.deepStrictEqual(validateSavedFlags([true, false]), [true, false]);
+	});
+
+	test("names the offending field", () => {
+		assertInvalid(
+			() =>
+				validatePlaylistTrackPage({
+					items: [
+						{ track: track("one") },
+						{ track: track("two", { name: 2 }) },
+					],
+				}),
+			"response.items[1].track.name",
+		);
+		assertInvalid(
+			() =>
+				validatePlaylistTrackPage({
+					items: [{ track: track("one", { artists: [{ name: "A" }] }) }],
+				}),
+			"response.items[0].track.artists[0].uri",
+		);
+		assertInvalid(() => validateSavedFlags([true, "yes"]), "response[1]");
+		assertInvalid(() => validateUser({ display_name: "No ID" }), "response.id");
+	});
+
+	test("rejects values of the wrong shape", () => {
+		assertInvalid(() => validatePlaylistTrackPage(null), "response");
+		assertInvalid(() => validatePlaylistTrackPage([]), "response");
+		assertInvalid(
+			() => validatePlaylistTrackPage({ items: {} }),
+			"response.items",
+		);
+	});
+
+	test("accepts local files in a playlist", () => {
+		const page = {
+			items: [
+				{ is_local: false, track: track("one") },
+				{ is_local: true, track: localTrack },
+			],
+		};
+		assert.strictEqual(validatePlaylistTrackPage(page).items.length, 2);
+	});
+
+	test("accepts a local file playing or queued", () => {
+		const state = {
+			device: { name: "Laptop" },
+			currently_playing_type: "track",
+			item: localTrack,
+		};
+		assert.strictEqual(validatePlaybackState(state), state);
+		assert.doesNotThrow(() =>
+			validateQueue({ currently_playing: localTrack, queue: [localTrack] }),
+		);
+	});
+
+	test("still requires URIs of tracks that aren't local", () => {
+		assertInvalid(
+			() =>
+				validatePlaylistTrackPage({
+					items: [{ track: track("one", { uri: null }) }],
+				}),
+			"response.items[0].track.uri",
+		);
+	});
+
+	test("skips search result types that weren't requested", () => {
+		const results = {
+			tracks: { items: [track("one"), null] },
+		};
+		assert.strictEqual(validateSearchResults(results), results);
+		assertInvalid(
+			() => validateSearchResults({ albums: { items: [{ name: "No URI" }] } }),
+			"response.albums.items[0].uri",
+		);
+	});
+});
@@ -2,7 +2,7 @@ import * as vscode from "vscode";
 import {
 	SpotifyPlaylist as SpotifyPlaylistAPI,
 	SpotifyArtist as SpotifyArtistAPI,
-	SpotifyTrack as SpotifyTrackAPI,
+	SpotifySimplifiedTrack as SpotifySimplifiedTrackAPI,
 	SpotifyAlbum as SpotifyAlbumAPI,
 	SpotifyDevice as SpotifyDeviceAPI,
 } from "./types/spotify";
@@ -67,7 +67,47 @@ export interface SpotifyTrack extends SpotifyTreeItem {
 	// Add other track-specific properties if needed
 }
 
+/**
+ * The groups an artist expands to: top tracks, releases by kind (named like
+ * Spotify's `include_groups`) and related artists.
+ */
+export type ArtistGroup =
+	| "topTracks"
+	| "album"
+	| "single"
+	| "appears_on"
+	| "related";
+
+const ARTIST_GROUPS: Record<ArtistGroup, { label: string; icon: string }> = {
+	topTracks: { label: "Top Tracks", icon: "star-full" },
+	album: { label: "Albums", icon: "library" },
+	single: { label: "Singles & EPs", icon: "file-media" },
+	appears_on: { label: "Appears On", icon: "references" },
+	related: { label: "Related Artists", icon: "organization" },
+};
+
 export class SpotifyTreeItem extends vscode.TreeItem {
+	// Set on playlists: what's needed to edit them
+	public snapshotId?: string; // Version of the playlist the tree shows
+	public playlistDescription?: string;
+	public editable?: boolean; // Owned by the user, or collaborative
+	public trackCount?: number;
+	public ownerName?: string;
+
+	// Set on tracks listed in a playlist: the playlist and the track's index in it
+	public playlist?: SpotifyTreeItem;
+	public position?: number;
+
+	// Set on the groups under an artist
+	public artistGroup?: ArtistGroup;
+
+	// Set on tracks that can't be played in the user's market
+	public unavailable?: boolean;
+
+	// Set on tracks Spotify relinked to a version playable in the user's
+	// market: the track as listed in playlists and Liked Songs
+	public linkedFrom?: { id: string; uri: string };
+
 	constructor(
 		public readonly label: string,
 		public readonly spotifyId: string,
@@ -77,7 +117,8 @@ export class SpotifyTreeItem extends vscode.TreeItem {
 			| "album"
 			| "track"
 			| "artist"
-			| "device",
+			| "device"
+			| "group",
 		public readonly collapsibleState: vscode.TreeItemCollapsibleState,
 		public readonly command?: vscode.Command,
 		public readonly iconPath?:
@@ -93,9 +134,33 @@ export class SpotifyTreeItem extends vscode.TreeItem {
 		this.contextValue = spotifyType; // Context value for 'when' clauses in package.json
 	}
 
+	/**
+	 * Whether this is an actual track, not a placeholder or podcast episode.
+	 */
+	isTrack(): boolean {
+		return (
+			this.spotifyType === "track" &&
+			this.spotifyUri.startsWith("spotify:track:")
+		);
+	}
+
+	/**
+	 * The ID the track is saved under in Liked Songs, see `linkedFrom`.
+	 */
+	get listedId(): string {
+		return this.linkedFrom?.id ?? this.spotifyId;
+	}
+
+	/**
+	 * The URI the track is listed under in playlists, see `linkedFrom`.
+	 */
+	get listedUri(): string {
+		return this.linkedFrom?.uri ?? this.spotifyUri;
+	}
+
 	// Helper to create a TreeItem from a SpotifyPlaylist
-	static fromPlaylist(playlist: SpotifyPlaylist): SpotifyTreeItem {
-		return new SpotifyTreeItem(
+	static fromPlaylist(playlist: SpotifyPlaylistAPI): SpotifyTreeItem {
+		const item = new SpotifyTreeItem(
 			playlist.name,
 			playlist.id,
 			playlist.uri,
@@ -108,6 +173,11 @@ export class SpotifyTreeItem extends vscode.TreeItem {
 			},
 			new vscode.ThemeIcon("folder-library"), // Generic list icon for playlists
 		);
+		item.snapshotId = playlist.snapshot_id;
+		item.trackCount = playlist.tracks.total;
+		item.ownerName = playlist.owner.display_name;
+		item.playlistDescription = playlist.description ?? "";
+		return item;
 	}
 
 	// Helper to create a TreeItem from a SpotifyDevice
@@ -130,13 +200,13 @@ export class SpotifyTreeItem extends vscode.TreeItem {
 	}
 
 	// Helper to create a TreeItem from a SpotifyArtist
-	static fromArtist(artist: SpotifyArtist): SpotifyTreeItem {
+	static fromArtist(artist: SpotifyArtistAPI): SpotifyTreeItem {
 		return new SpotifyTreeItem(
 			artist.name,
 			artist.id,
 			artist.uri,
 			"artist",
-			vscode.TreeItemCollapsibleState.Collapsed, // Artists can be expanded to show tracks
+			vscode.TreeItemCollapsibleState.Collapsed, // Artists expand to groups of tracks, releases and related artists
 			{
 				command: "xilie.playArtistTopTracks", // New command to play top tracks
 				title: "Play Artist's Top Tracks",
@@ -146,8 +216,29 @@ export class SpotifyTreeItem extends vscode.TreeItem {
 		);
 	}
 
+	// Helper to create one of the groups listed under an artist
+	static fromArtistGroup(
+		artist: SpotifyTreeItem,
+		group: ArtistGroup,
+	): SpotifyTreeItem {
+		const { label, icon } = ARTIST_GROUPS[group];
+		const item = new SpotifyTreeItem(
+			label,
+			artist.spotifyId,
+			artist.spotifyUri,
+			"group",
+			vscode.TreeItemCollapsibleState.Collapsed, // Loaded when expanded
+			undefined, // Groups only expand
+			new vscode.ThemeIcon(icon),
+		);
+		// An artist can be listed several times, e.g. as a related artist
+		item.id = `${artist.id}/${group}`;
+		item.artistGroup = group;
+		return item;
+	}
+
 	// Helper to create a TreeItem from a SpotifyAlbum
-	static fromAlbum(album: SpotifyAlbum): SpotifyTreeItem {
+	static fromAlbum(album: SpotifyAlbumAPI): SpotifyTreeItem {
 		return new SpotifyTreeItem(
 			album.name +
 				(album.artists
@@ -167,12 +258,30 @@ export class SpotifyTreeItem extends vscode.TreeItem {
 	}
 
 	// Helper to create a TreeItem from a SpotifyTrack
-	static fromTrack(track: SpotifyTrack): SpotifyTreeItem {
+	static fromTrack(track: SpotifySimplifiedTrackAPI): SpotifyTreeItem {
 		const artists = track.artists
 			? track.artists.map((a) => a.name).join(", ")
 			: "Unknown Artist";
 		const label = `${track.name} - ${artists}`;
-		return new SpotifyTreeItem(
+		// Only known when the track was fetched for a market
+		if (track.is_playable === false) {
+			const item = new SpotifyTreeItem(
+				label,
+				track.id,
+				track.uri,
+				"track",
+				vscode.TreeItemCollapsibleState.None,
+				undefined, // Playing it would fail
+				new vscode.ThemeIcon(
+					"circle-slash",
+					new vscode.ThemeColor("disabledForeground"),
+				),
+			);
+			item.unavailable = true;
+			item.tooltip = `${label}\nNot available in your country`;
+			return item;
+		}
+		const item = new SpotifyTreeItem(
 			label,
 			track.id,
 			track.uri,
@@ -193,5 +302,12 @@ export class SpotifyTreeItem extends vscode.TreeItem {
 			},
 			new vscode.ThemeIcon("play"), // Play icon for tracks
 		);
+		if (track.linked_from) {
+			item.linkedFrom = {
+				id: track.linked_from.id,
+				uri: track.linked_from.uri,
+			};
+		}
+		return item;
 	}
 }
@@ -7,6 +7,7 @@ export interface SpotifyUser {
 	display_name: string;
 	email: string;
 	images: SpotifyImage[];
+	country?: string; // Only with the user-read-private scope
 }
 
 export interface SpotifyImage {
@@ -17,17 +18,23 @@ export interface SpotifyImage {
 
 export interface SpotifyPlaybackState {
 	device: SpotifyDevice;
-	repeat_state: string;
+	repeat_state: SpotifyRepeatState;
 	shuffle_state: boolean;
 	context: SpotifyContext | null;
 	timestamp: number;
 	progress_ms: number;
 	is_playing: boolean;
-	item: SpotifyTrack;
+	item: SpotifyTrack | null; // null while an ad or nothing is playing
 	currently_playing_type: string;
 	actions: SpotifyActions;
 }
 
+export type SpotifyRepeatState = "off" | "context" | "track";
+
+export interface SpotifyDevicesResponse {
+	devices: SpotifyDevice[];
+}
+
 export interface SpotifyDevice {
 	id: string;
 	is_active: boolean;
@@ -35,7 +42,8 @@ export interface SpotifyDevice {
 	is_restricted: boolean;
 	name: string;
 	type: string;
-	volume_percent: number;
+	volume_percent: number | null;
+	supports_volume: boolean;
 }
 
 export interface SpotifyContext {
@@ -103,6 +111,14 @@ export interface SpotifyTrack {
 	is_local: boolean;
 }
 
+/**
+ * Track as nested in albums (e.g. album tracks), without album details.
+ */
+export type SpotifySimplifiedTrack = Omit<
+	SpotifyTrack,
+	"album" | "external_ids" | "popularity"
+>;
+
 export interface SpotifyAlbum {
 	album_type: string;
 	total_tracks: number;
@@ -160,6 +176,28 @@ export interface SpotifyPlaylistTracksRef {
 	total: number;
 }
 
+export interface SpotifyPlaylistTrack {
+	added_at: string | null;
+	is_local: boolean;
+	track: SpotifyTrack | null; // null when the track was removed from Spotify
+}
+
+export interface SpotifySavedTrack {
+	added_at: string;
+	track: SpotifyTrack;
+}
+
+export interface SpotifySavedAlbum {
+	added_at: string;
+	album: SpotifyAlbum;
+}
+
+export interface SpotifyPlayHistory {
+	track: SpotifyTrack;
+	played_at: string;
+	context: SpotifyContext | null;
+}
+
 export interface SpotifyPagingObject<T> {
 	href: string;
 	items: T[];
@@ -170,9 +208,58 @@ export interface SpotifyPagingObject<T> {
 	total: number;
 }
 
+export interface SpotifyCursors {
+	after?: string | null;
+	before?: string | null;
+}
+
+export interface SpotifyCursorPagingObject<T> {
+	href: string;
+	items: T[];
+	limit: number;
+	next: string | null;
+	cursors: SpotifyCursors | null;
+	total?: number;
+}
+
+export interface SpotifyFollowedArtistsResponse {
+	artists: SpotifyCursorPagingObject<SpotifyArtist>;
+}
+
+export interface SpotifyArtistTopTracksResponse {
+	tracks: SpotifyTrack[];
+}
+
+export interface SpotifyRelatedArtistsResponse {
+	artists: SpotifyArtist[];
+}
+
+/**
+ * The user's play queue. Podcast episodes can appear too; they share the
+ * fields the UI uses except `artists`.
+ */
+export interface SpotifyQueue {
+	currently_playing: SpotifyTrack | null;
+	queue: SpotifyTrack[];
+}
+
+export type SpotifySearchType = "album" | "artist" | "playlist" | "track";
+
+/**
+ * Search results, one paging object per requested type.
+ * Spotify occasionally returns null entries, e.g. for unavailable playlists.
+ */
+export interface SpotifySearchResults {
+	tracks?: SpotifyPagingObject<SpotifyTrack | null>;
+	artists?: SpotifyPagingObject<SpotifyArtist | null>;
+	albums?: SpotifyPagingObject<SpotifyAlbum | null>;
+	playlists?: SpotifyPagingObject<SpotifyPlaylist | null>;
+}
+
 export interface SpotifyError {
 	error: {
 		status: number;
 		message: string;
+		reason?: string; // Player errors only, e.g. NO_ACTIVE_DEVICE, PREMIUM_REQUIRED
 	};
 }
@@ -0,0 +1,136 @@
+import * as vscode from "vscode";
+import { SpotifyTreeItem } from "../types";
+
+/**
+ * Data transfer type for tracks dragged out of any Xilie tree.
+ */
+export const TRACKS_MIME_TYPE = "application/vnd.xilie.tracks";
+
+/**
+ * What dropping tracks does. Implemented by the extension, which owns the
+ * API client, error reporting and the other views.
+ */
+export interface TrackDropHandler {
+	/**
+	 * Adds tracks to a playlist.
+	 * @param playlist The playlist node the tracks were dropped on.
+	 * @param tracks The dragged tracks.
+	 * @param position Optional: Where to insert them, defaults to the end.
+	 */
+	addToPlaylist(
+		playlist: SpotifyTreeItem,
+		tracks: SpotifyTreeItem[],
+		position?: number,
+	): Promise<void>;
+
+	/**
+	 * Moves consecutive tracks within their playlist.
+	 * @param playlist The playlist the tracks are listed in.
+	 * @param tracks The dragged tracks, in playlist order.
+	 * @param insertBefore The position to move them before.
+	 */
+	reorderPlaylist(
+		playlist: SpotifyTreeItem,
+		tracks: SpotifyTreeItem[],
+		insertBefore: number,
+	): Promise<void>;
+
+	/**
+	 * Plays tracks on a device, transferring playback there.
+	 * @param device The device node the tracks were dropped on.
+	 * @param tracks The dragged tracks.
+	 */
+	playOnDevice(
+		device: SpotifyTreeItem,
+		tracks: SpotifyTreeItem[],
+	): Promise<void>;
+}
+
+/**
+ * Drag and drop for the Xilie trees: tracks can be dragged out of every tree
+ * and dropped onto a playlist (to add them), onto a track in a playlist (to
+ * insert them there, or reorder when they come from that playlist) or onto a
+ * device (to play them there).
+ */
+export class SpotifyDragAndDropController
+	implements vscode.TreeDragAndDropController<SpotifyTreeItem>
+{
+	readonly dragMimeTypes = [TRACKS_MIME_TYPE];
+	readonly dropMimeTypes: readonly string[];
+
+	/**
+	 * @param handler Performs the drops.
+	 * @param acceptsDrops Whether tracks can be dropped into this tree, e.g.
+	 * the playlists and devices views.
+	 */
+	constructor(
+		private readonly handler: TrackDropHandler,
+		acceptsDrops: boolean = false,
+	) {
+		this.dropMimeTypes = acceptsDrops ? [TRACKS_MIME_TYPE] : [];
+	}
+
+	handleDrag(
+		source: readonly SpotifyTreeItem[],
+		dataTransfer: vscode.DataTransfer,
+	): void {
+		// Placeholders and episodes can't be added to playlists, and tracks
+		// unavailable in the user's market can't be played
+		const tracks = source.filter((item) => item.isTrack() && !item.unavailable);
+		if (tracks.length > 0) {
+			dataTransfer.set(TRACKS_MIME_TYPE, new vscode.DataTransferItem(tracks));
+		}
+	}
+
+	async handleDrop(
+		target: SpotifyTreeItem | undefined,
+		dataTransfer: vscode.DataTransfer,
+	): Promise<void> {
+		const tracks: SpotifyTreeItem[] | undefined =
+			dataTransfer.get(TRACKS_MIME_TYPE)?.value;
+		if (!target || !tracks || tracks.length === 0) {
+			return;
+		}
+
+		if (target.spotifyType === "device") {
+			await this.handler.playOnDevice(target, tracks);
+			return;
+		}
+
+		// Dropping onto a playlist's track inserts at that track
+		const playlist =
+			target.spotifyType === "playlist" ? target : target.playlist;
+		if (!playlist) {
+			return;
+		}
+		if (!playlist.editable) {
+			vscode.window.showInformationMessage(
+				`You can't add tracks to ${playlist.label}, it belongs to someone else.`,
+			);
+			return;
+		}
+
+		const fromSamePlaylist = tracks.every(
+			(track) => track.playlist?.spotifyId === playlist.spotifyId,
+		);
+		if (fromSamePlaylist) {
+			const sorted = [...tracks].sort(
+				(a, b) => (a.position ?? 0) - (b.position ?? 0),
+			);
+			const first = sorted[0].position ?? 0;
+			// Dropping onto a later track puts the tracks after it, dropping
+			// onto the playlist itself moves them to the end
+			const insertBefore =
+				target.position === undefined
+					? playlist.trackCount
+					: target.position > first
+						? target.position + 1
+						: target.position;
+			if (insertBefore !== undefined) {
+				await this.handler.reorderPlaylist(playlist, sorted, insertBefore);
+			}
+		} else {
+			await this.handler.addToPlaylist(playlist, tracks, target.position);
+		}
+	}
+}
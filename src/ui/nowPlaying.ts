@@ -0,0 +1,272 @@
+import crypto from "crypto";
+import * as vscode from "vscode";
+import { LikedTracks } from "../spotify/likedTracks";
+import { SpotifyPlaybackState, SpotifyRepeatState } from "../types/spotify";
+import { logger } from "../utils/logger";
+
+/**
+ * What the Now Playing view renders. Flattened from SpotifyPlaybackState so
+ * the webview doesn't depend on the Web API's shape.
+ */
+export interface NowPlayingState {
+	trackId: string;
+	title: string;
+	artists: string;
+	album: string;
+	artUrl: string | undefined;
+	durationMs: number;
+	progressMs: number; // Position when the state was polled
+	isPlaying: boolean;
+	shuffle: boolean;
+	repeat: SpotifyRepeatState;
+	volume: number | null; // null when the device doesn't support volume control
+	liked: boolean | undefined; // undefined until the saved state is known
+	deviceName: string;
+}
+
+/**
+ * Messages posted from the extension to the webview.
+ */
+export type NowPlayingViewMessage = {
+	type: "state";
+	state: NowPlayingState | null; // null when nothing is playing
+};
+
+/**
+ * Messages posted from the webview to the extension.
+ */
+export type NowPlayingWebviewMessage =
+	| { type: "ready" }
+	| { type: "playPause" }
+	| { type: "next" }
+	| { type: "previous" }
+	| { type: "toggleShuffle" }
+	| { type: "cycleRepeat" }
+	| { type: "toggleLike" }
+	| { type: "seek"; positionMs: number }
+	| { type: "setVolume"; volume: number };
+
+/**
+ * Options the Now Playing view passes to the playback commands it reuses.
+ */
+export interface PlaybackCommandOptions {
+	quiet?: boolean; // Skip the confirmation, the view already shows the change
+}
+
+const QUIET: PlaybackCommandOptions = { quiet: true };
+
+/**
+ * The "Now Playing" webview view: cover art, track details, a progress bar
+ * interpolated between polls, and playback controls.
+ * It doesn't poll on its own; `update` is fed by the same polling that
+ * drives the status bar.
+ */
+export class NowPlayingViewProvider
+	implements vscode.WebviewViewProvider, vscode.Disposable
+{
+	public static readonly viewId = "xilieNowPlaying";
+
+	private view: vscode.WebviewView | undefined;
+	private state: NowPlayingState | null = null;
+	private readonly disposables: vscode.Disposable[] = [];
+
+	constructor(
+		private readonly extensionUri: vscode.Uri,
+		private readonly likedTracks: LikedTracks,
+	) {
+		// The heart was toggled here, from the command or from a tree
+		this.disposables.push(
+			likedTracks.onDidChange((trackIds) => {
+				if (this.state && trackIds.includes(this.state.trackId)) {
+					this.state.liked = likedTracks.get(this.state.trackId);
+					this.post({ type: "state", state: this.state });
+				}
+			}),
+		);
+	}
+
+	resolveWebviewView(webviewView: vscode.WebviewView): void {
+		this.view = webviewView;
+		const mediaUri = vscode.Uri.joinPath(this.extensionUri, "media");
+
+		webviewView.webview.options = {
+			enableScripts: true,
+			localResourceRoots: [mediaUri],
+		};
+		webviewView.webview.html = this.getHtml(webviewView.webview, mediaUri);
+
+		// The view is resolved again each time it is re-created, these listeners
+		// only live as long as this one
+		const viewDisposables = [
+			webviewView.webview.onDidReceiveMessage(
+				(message: NowPlayingWebviewMessage) => this.handleMessage(message),
+			),
+			// Hidden webviews drop messages, resend the latest state when shown
+			webviewView.onDidChangeVisibility(() => {
+				if (webviewView.visible) {
+					this.post({ type: "state", state: this.state });
+				}
+			}),
+		];
+		webviewView.onDidDispose(() => {
+			if (this.view === webviewView) {
+				this.view = undefined;
+			}
+			viewDisposables.forEach((disposable) => disposable.dispose());
+		});
+	}
+
+	/**
+	 * Shows the latest playback state.
+	 * @param playbackState The polled playback state, null when nothing is playing.
+	 */
+	public async update(
+		playbackState: SpotifyPlaybackState | null,
+	): Promise<void> {
+		const track = playbackState?.item;
+		if (!playbackState || !track) {
+			this.state = null;
+			this.post({ type: "state", state: null });
+			return;
+		}
+
+		const liked = this.likedTracks.get(track.id);
+
+		this.state = {
+			trackId: track.id,
+			title: track.name,
+			artists: (track.artists ?? []).map((artist) => artist.name).join(", "),
+			album: track.album?.name ?? "",
+			artUrl: track.album?.images?.[0]?.url,
+			durationMs: track.duration_ms,
+			progressMs: playbackState.progress_ms,
+			isPlaying: playbackState.is_playing,
+			shuffle: playbackState.shuffle_state,
+			repeat: playbackState.repeat_state,
+			volume: playbackState.device.supports_volume
+				? playbackState.device.volume_percent
+				: null,
+			liked,
+			deviceName: playbackState.device.name,
+		};
+		this.post({ type: "state", state: this.state });
+
+		if (liked === undefined && this.view?.visible) {
+			await this.refreshLiked(track.id);
+		}
+	}
+
+	private async refreshLiked(trackId: string): Promise<void> {
+		try {
+			await this.likedTracks.check([trackId]);
+			if (this.state?.trackId === trackId) {
+				this.state.liked = this.likedTracks.get(trackId);
+				this.post({ type: "state", state: this.state });
+			}
+		} catch (error: any) {
+			logger.warn(`Could not check if track is liked: ${error.message}`);
+		}
+	}
+
+	private async handleMessage(
+		message: NowPlayingWebviewMessage,
+	): Promise<void> {
+		switch (message.type) {
+			case "ready":
+				this.post({ type: "state", state: this.state });
+				if (this.state && this.state.liked === undefined) {
+					await this.refreshLiked(this.state.trackId);
+				}
+				break;
+			case "playPause":
+				await vscode.commands.executeCommand("xilie.playPause", QUIET);
+				break;
+			case "next":
+				await vscode.commands.executeCommand("xilie.nextTrack", QUIET);
+				break;
+			case "previous":
+				await vscode.commands.executeCommand("xilie.previousTrack", QUIET);
+				break;
+			case "toggleShuffle":
+				await vscode.commands.executeCommand("xilie.toggleShuffle", QUIET);
+				break;
+			case "cycleRepeat":
+				await vscode.commands.executeCommand("xilie.cycleRepeat", QUIET);
+				break;
+			case "seek":
+				await vscode.commands.executeCommand(
+					"xilie.seekTo",
+					message.positionMs,
+				);
+				break;
+			case "setVolume":
+				await vscode.commands.executeCommand("xilie.setVolume", message.volume);
+				break;
+			case "toggleLike":
+				await vscode.commands.executeCommand("xilie.toggleLike", QUIET);
+				break;
+		}
+	}
+
+	private post(message: NowPlayingViewMessage): void {
+		this.view?.webview.postMessage(message);
+	}
+
+	private getHtml(webview: vscode.Webview, mediaUri: vscode.Uri): string {
+		const scriptUri = webview.asWebviewUri(
+			vscode.Uri.joinPath(mediaUri, "nowPlaying.js"),
+		);
+		const styleUri = webview.asWebviewUri(
+			vscode.Uri.joinPath(mediaUri, "nowPlaying.css"),
+		);
+		const nonce = crypto.randomBytes(16).toString("hex");
+
+		return `<!DOCTYPE html>
+<html lang="en">
+<head>
+	<meta charset="UTF-8">
+	<meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src https://i.scdn.co https://*.spotifycdn.com; style-src ${webview.cspSource}; script-src 'nonce-${nonce}';">
+	<meta name="viewport" content="width=device-width, initial-scale=1.0">
+	<link href="${styleUri}" rel="stylesheet">
+	<title>Now Playing</title>
+</head>
+<body>
+	<p id="idle" class="idle">Nothing is playing right now.</p>
+	<main id="player" hidden>
+		<img id="art" class="art" alt="">
+		<div class="details">
+			<div class="title-row">
+				<h2 id="title" class="title"></h2>
+				<button id="like" class="icon" title="Save to Liked Songs" aria-pressed="false">&#9825;</button>
+			</div>
+			<p id="artists" class="artists"></p>
+			<p id="album" class="album"></p>
+		</div>
+		<div class="progress">
+			<span id="elapsed">0:00</span>
+			<input id="position" type="range" min="0" max="0" value="0" aria-label="Seek">
+			<span id="duration">0:00</span>
+		</div>
+		<div class="transport">
+			<button id="shuffle" class="icon" title="Toggle Shuffle" aria-pressed="false">&#8652;</button>
+			<button id="previous" class="icon" title="Previous Track">&#9198;</button>
+			<button id="playPause" class="primary" title="Play/Pause">&#9654;</button>
+			<button id="next" class="icon" title="Next Track">&#9197;</button>
+			<button id="repeat" class="icon" title="Cycle Repeat Mode" aria-pressed="false">&#8635;</button>
+		</div>
+		<div id="volumeRow" class="volume">
+			<span aria-hidden="true">&#128264;</span>
+			<input id="volume" type="range" min="0" max="100" value="0" aria-label="Volume">
+			<span id="volumeValue"></span>
+		</div>
+		<p id="device" class="device"></p>
+	</main>
+	<script nonce="${nonce}" src="${scriptUri}"></script>
+</body>
+</html>`;
+	}
+
+	dispose(): void {
+		this.disposables.forEach((disposable) => disposable.dispose());
+	}
+}
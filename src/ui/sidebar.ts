@@ -1,6 +1,103 @@
 import * as vscode from "vscode";
 import { SpotifyApi } from "../spotify/api";
-import { SpotifyTreeItem, SpotifyDevice } from "../types";
+import { InsufficientScopeError, SpotifyApiError } from "../spotify/errors";
+import { LikedTracks } from "../spotify/likedTracks";
+import { ArtistGroup, SpotifyTreeItem, SpotifyDevice } from "../types";
+import { fuzzyMatch } from "../utils/fuzzy";
+import {
+	SpotifyCursorPagingObject,
+	SpotifyPagingObject,
+} from "../types/spotify";
+
+/**
+ * Where a page starts: an offset for offset-paged endpoints, a cursor for
+ * cursor-paged ones (followed artists, recently played).
+ */
+type PageCursor = number | string;
+
+/**
+ * One page of tree items, and where the next page starts.
+ */
+interface Page<C extends PageCursor = PageCursor> {
+	items: SpotifyTreeItem[];
+	next: C | undefined; // undefined on the last page
+}
+
+/**
+ * A list that is fetched one page at a time, as the user asks for more.
+ */
+interface PagedList {
+	parent: SpotifyTreeItem | undefined; // undefined for the root of the view
+	fetchPage(cursor?: PageCursor): Promise<Page>; // The first page without a cursor
+	items: SpotifyTreeItem[];
+	next: PageCursor | undefined;
+	stale: boolean; // Reload the pages loaded so far on the next read
+}
+
+/**
+ * Maps a page of an offset-paged endpoint to tree items.
+ * @param toItem Maps an API object and its index in the whole list,
+ * undefined to leave it out.
+ */
+function toPage<T>(
+	page: SpotifyPagingObject<T>,
+	toItem: (item: T, index: number) => SpotifyTreeItem | undefined,
+): Page<number> {
+	return {
+		items: page.items
+			.map((item, index) => toItem(item, page.offset + index))
+			.filter((item): item is SpotifyTreeItem => item !== undefined),
+		next: page.next ? page.offset + page.items.length : undefined,
+	};
+}
+
+/**
+ * Maps a page of a cursor-paged endpoint to tree items.
+ * @param cursor Which cursor continues the list: `after` for followed
+ * artists, `before` for recently played.
+ */
+function toCursorPage<T>(
+	page: SpotifyCursorPagingObject<T>,
+	cursor: "after" | "before",
+	toItem: (item: T) => SpotifyTreeItem,
+): Page<string> {
+	return {
+		items: page.items.map(toItem),
+		next: (page.next && page.cursors?.[cursor]) || undefined,
+	};
+}
+
+/**
+ * Appends items to a list, skipping IDs it already has. Pages can overlap
+ * when the list changed in between, and tree item IDs must be unique.
+ */
+function appendUnique(list: SpotifyTreeItem[], items: SpotifyTreeItem[]) {
+	const ids = new Set(list.map((item) => item.id));
+	for (const item of items) {
+		if (!ids.has(item.id)) {
+			ids.add(item.id);
+			list.push(item);
+		}
+	}
+}
+
+/**
+ * Makes a child's ID unique to its parent. Tree item IDs must be unique, but
+ * the same album or track can be listed under several artists or albums.
+ */
+function scopeId(parent: SpotifyTreeItem, item: SpotifyTreeItem) {
+	item.id = `${parent.id}/${item.id}`;
+	return item;
+}
+
+// The groups every artist expands to, in this order
+const ARTIST_GROUPS: ArtistGroup[] = [
+	"topTracks",
+	"album",
+	"single",
+	"appears_on",
+	"related",
+];
 
 export class SpotifySidebarProvider
 	implements vscode.TreeDataProvider<SpotifyTreeItem>
@@ -12,10 +109,25 @@ export class SpotifySidebarProvider
 		SpotifyTreeItem | undefined | void
 	> = this._onDidChangeTreeData.event;
 
+	// Lists loaded page by page, keyed by view (root) or parent item ID
+	private pagedLists = new Map<string, PagedList>();
+	// Playlists currently shown, to refresh one after it was edited
+	private playlistItems = new Map<string, SpotifyTreeItem>();
+	// Narrows the loaded items, kept across refreshes
+	private filter: string | undefined;
+	// Copies of items expanded because some of their loaded children match
+	private filterExpanded = new WeakSet<SpotifyTreeItem>();
+	// Spotify refused related artists, artists no longer offer the group
+	private relatedArtistsUnavailable = false;
+
 	constructor(
 		private spotifyApi: SpotifyApi,
-		private viewId: string,
-	) {}
+		public readonly viewId: string,
+		private likedTracks?: LikedTracks,
+	) {
+		// Update the liked indicators and actions
+		likedTracks?.onDidChange(() => this._onDidChangeTreeData.fire());
+	}
 
 	getTreeItem(element: SpotifyTreeItem): vscode.TreeItem {
 		return element;
@@ -23,135 +135,593 @@ export class SpotifySidebarProvider
 
 	/**
 	 * Creates an empty state tree item to show when there's no data
+	 * @param parent The item whose children are empty, undefined for the root
+	 * @param label Optional: What to show instead of the default text
 	 */
-	private createEmptyStateItem(): SpotifyTreeItem {
-		return new SpotifyTreeItem(
-			"Nothing to show here...",
-			"empty-state",
+	private createEmptyStateItem(
+		parent: SpotifyTreeItem | undefined,
+		label: string = "Nothing to show here...",
+	): SpotifyTreeItem {
+		const item = new SpotifyTreeItem(
+			label,
+			// Several lists can be empty at once, IDs must be unique in the tree
+			`${parent?.id ?? this.viewId}/empty`,
 			"",
 			"track", // Use track type as it's a leaf node
 			vscode.TreeItemCollapsibleState.None,
 			undefined, // No command
 			undefined, // No icon
 		);
+		item.contextValue = "empty"; // Keep track actions off the placeholder
+		return item;
+	}
+
+	/**
+	 * Creates the item at the end of a paged list that loads its next page
+	 * @param key The key of the list in `pagedLists`
+	 */
+	private createLoadMoreItem(key: string): SpotifyTreeItem {
+		const item = new SpotifyTreeItem(
+			"Load more...",
+			`load-more-${key}`,
+			"",
+			"track", // Use track type as it's a leaf node
+			vscode.TreeItemCollapsibleState.None,
+			{
+				command: "xilie.loadMore",
+				title: "Load More",
+				arguments: [this.viewId, key],
+			},
+			new vscode.ThemeIcon("ellipsis"),
+		);
+		item.contextValue = "loadMore";
+		return item;
+	}
+
+	/**
+	 * How many items to fetch per page, from `xilie.pageSize`
+	 */
+	private getPageSize(): number {
+		const size = vscode.workspace
+			.getConfiguration("xilie")
+			.get<number>("pageSize", 50);
+		return Math.min(Math.max(Math.round(size), 1), 50); // Spotify's limits
+	}
+
+	/**
+	 * Returns the pages of a list loaded so far, fetching the first page on
+	 * first use and reloading them after a refresh. More pages are only
+	 * fetched when the user clicks "Load more...".
+	 * @param key Identifies the list, e.g. the view ID or the parent item's ID
+	 * @param parent The item whose children these are, undefined for the root
+	 * @param fetchPage Fetches the page starting at the given cursor
+	 */
+	private async getPagedChildren<C extends PageCursor>(
+		key: string,
+		parent: SpotifyTreeItem | undefined,
+		fetchPage: (cursor?: C) => Promise<Page<C>>,
+	): Promise<SpotifyTreeItem[]> {
+		let list = this.pagedLists.get(key);
+		if (!list || list.stale) {
+			// Reload as many items as were shown before the refresh
+			const previousCount = list?.items.length ?? 0;
+			const items: SpotifyTreeItem[] = [];
+			let next: C | undefined;
+			do {
+				const page: Page<C> = await fetchPage(next);
+				appendUnique(items, page.items);
+				next = page.next;
+			} while (next !== undefined && items.length < previousCount);
+			list = { parent, fetchPage, items, next, stale: false };
+			this.pagedLists.set(key, list);
+		}
+		// Parents are recreated whenever their own list reloads
+		list.parent = parent;
+
+		if (list.items.length === 0) {
+			return [this.createEmptyStateItem(parent)];
+		}
+		return list.next === undefined
+			? list.items
+			: [...list.items, this.createLoadMoreItem(key)];
+	}
+
+	/**
+	 * Appends the next page to a paged list.
+	 * @param key The key the list was loaded with
+	 */
+	async loadMore(key: string): Promise<void> {
+		const list = this.pagedLists.get(key);
+		if (!list || list.next === undefined) {
+			return;
+		}
+		const page = await list.fetchPage(list.next);
+		appendUnique(list.items, page.items);
+		list.next = page.next;
+		this._onDidChangeTreeData.fire(list.parent);
 	}
 
 	async getChildren(element?: SpotifyTreeItem): Promise<SpotifyTreeItem[]> {
+		let items = await this.getItems(element);
+		// Children of matching items are all shown
+		if (this.filter && (!element || this.filterExpanded.has(element))) {
+			items = this.applyFilter(element, items, this.filter);
+		}
+		await this.decorateTracks(items);
+		return items;
+	}
+
+	/**
+	 * The active filter, if any.
+	 */
+	get filterQuery(): string | undefined {
+		return this.filter;
+	}
+
+	/**
+	 * Narrows the view to the loaded items matching a query.
+	 * @param query Fuzzy matched against names, artists and playlist owners,
+	 * undefined or empty to show everything again.
+	 */
+	setFilter(query: string | undefined): void {
+		this.filter = query?.trim() || undefined;
+		this._onDidChangeTreeData.fire();
+	}
+
+	/**
+	 * Keeps the items matching the filter. Items that don't match but whose
+	 * loaded children do, e.g. a playlist with a matching track, are shown
+	 * expanded with just those children.
+	 * @param parent The item whose children these are, undefined for the root
+	 */
+	private applyFilter(
+		parent: SpotifyTreeItem | undefined,
+		items: SpotifyTreeItem[],
+		query: string,
+	): SpotifyTreeItem[] {
+		const matches = (item: SpotifyTreeItem) =>
+			fuzzyMatch(query, [item.label, item.ownerName ?? ""].join(" "));
+
+		const result: SpotifyTreeItem[] = [];
+		let loadMore: SpotifyTreeItem | undefined;
+		for (const item of items) {
+			if (item.contextValue === "loadMore") {
+				// Loading more gives the filter more to search
+				loadMore = item;
+			} else if (item.contextValue === "empty") {
+				continue;
+			} else if (matches(item)) {
+				result.push(item);
+			} else if (
+				item.collapsibleState !== vscode.TreeItemCollapsibleState.None &&
+				this.pagedLists.get(item.spotifyId)?.items.some(matches)
+			) {
+				result.push(this.createExpandedCopy(item));
+			}
+		}
+
+		if (result.length === 0) {
+			result.push(
+				this.createEmptyStateItem(parent, `No loaded items match "${query}"`),
+			);
+		}
+		return loadMore ? [...result, loadMore] : result;
+	}
+
+	/**
+	 * Copies an item so it shows expanded. The copy needs its own ID, as VS Code
+	 * keeps the expansion state the user left an ID in.
+	 */
+	private createExpandedCopy(item: SpotifyTreeItem): SpotifyTreeItem {
+		const copy = Object.assign(
+			new SpotifyTreeItem(
+				item.label,
+				item.spotifyId,
+				item.spotifyUri,
+				item.spotifyType,
+				vscode.TreeItemCollapsibleState.Expanded,
+			),
+			item,
+			{
+				id: `filtered-${item.id}`,
+				collapsibleState: vscode.TreeItemCollapsibleState.Expanded,
+			},
+		);
+		this.filterExpanded.add(copy);
+		return copy;
+	}
+
+	/**
+	 * Shows which tracks are in Liked Songs, checked in batches, and sets the
+	 * context value the track actions depend on:
+	 * `track`, then `.liked` if liked, then `.inPlaylist` if listed in a
+	 * playlist the user can edit. Podcast episodes are marked `episode`, and
+	 * tracks that can't be played in the user's market `unavailable`, which
+	 * keeps every action but the playlist ones off them.
+	 * Relinked tracks are checked under the ID they were saved with.
+	 */
+	private async decorateTracks(items: SpotifyTreeItem[]): Promise<void> {
+		const likedTracks = this.likedTracks;
+		for (const item of items) {
+			if (item.spotifyUri.startsWith("spotify:episode:")) {
+				item.contextValue = "episode";
+			} else if (item.unavailable) {
+				// They can still be removed from or moved in the playlist
+				const inPlaylist = item.playlist?.editable === true;
+				item.contextValue = `unavailable${inPlaylist ? ".inPlaylist" : ""}`;
+				item.description = "Unavailable";
+			}
+		}
+		const tracks = items.filter((item) => item.isTrack() && !item.unavailable);
+		if (tracks.length === 0) {
+			return;
+		}
+
+		if (likedTracks) {
+			try {
+				await likedTracks.check(tracks.map((item) => item.listedId));
+			} catch (error) {
+				console.error("Error checking liked tracks:", error);
+			}
+		}
+		for (const item of tracks) {
+			const liked = likedTracks?.get(item.listedId) === true;
+			const inPlaylist = item.playlist?.editable === true;
+			item.contextValue = `track${liked ? ".liked" : ""}${inPlaylist ? ".inPlaylist" : ""}`;
+			item.description = liked ? "♥" : undefined;
+		}
+	}
+
+	private async getItems(
+		element?: SpotifyTreeItem,
+	): Promise<SpotifyTreeItem[]> {
 		if (!element) {
 			// This is the root of the tree, populate with top-level items
 			switch (this.viewId) {
 				case "xiliePlaylists":
-					const playlists = await this.spotifyApi.getUserPlaylists();
-					if (playlists && playlists.items && playlists.items.length > 0) {
-						return playlists.items.map((p: any) =>
-							SpotifyTreeItem.fromPlaylist(p),
+					try {
+						// Without the profile, playlists just can't be edited
+						const user = await this.spotifyApi
+							.getCurrentUserProfile()
+							.catch(() => undefined);
+						return await this.getPagedChildren(
+							this.viewId,
+							undefined,
+							async (offset: number = 0) => {
+								if (offset === 0) {
+									this.playlistItems.clear();
+								}
+								return toPage(
+									await this.spotifyApi.getUserPlaylists(
+										this.getPageSize(),
+										offset,
+									),
+									(p) => {
+										const item = SpotifyTreeItem.fromPlaylist(p);
+										item.editable = p.owner.id === user?.id || p.collaborative;
+										if (item.editable) {
+											item.contextValue = "playlist.editable";
+										}
+										this.playlistItems.set(p.id, item);
+										return item;
+									},
+								);
+							},
 						);
+					} catch (error) {
+						console.error("Error fetching playlists:", error);
+						return [this.createEmptyStateItem(element)];
 					}
-					return [this.createEmptyStateItem()];
 				case "xilieDevices":
-					const devicesResponse = await this.spotifyApi.getAvailableDevices();
-					if (
-						devicesResponse &&
-						devicesResponse.devices &&
-						devicesResponse.devices.length > 0
-					) {
-						return devicesResponse.devices.map((d: any) =>
-							SpotifyTreeItem.fromDevice({
-								id: d.id,
-								name: d.name,
-								deviceType: d.type,
-								isActive: d.is_active,
-								isRestricted: d.is_restricted,
-								type: "device",
-							} as SpotifyDevice),
-						);
+					try {
+						const devicesResponse = await this.spotifyApi.getAvailableDevices();
+						if (
+							devicesResponse &&
+							devicesResponse.devices &&
+							devicesResponse.devices.length > 0
+						) {
+							return devicesResponse.devices.map((d) =>
+								SpotifyTreeItem.fromDevice({
+									id: d.id,
+									name: d.name,
+									deviceType: d.type,
+									isActive: d.is_active,
+									isRestricted: d.is_restricted,
+									type: "device",
+								} as SpotifyDevice),
+							);
+						}
+						return [this.createEmptyStateItem(element)];
+					} catch (error) {
+						console.error("Error fetching devices:", error);
+						return [this.createEmptyStateItem(element)];
 					}
-					return [this.createEmptyStateItem()];
 				case "xilieArtists": // New case for Artists view
-					const artistsResponse = await this.spotifyApi.getFollowedArtists();
-					if (
-						artistsResponse &&
-						artistsResponse.artists &&
-						artistsResponse.artists.items &&
-						artistsResponse.artists.items.length > 0
-					) {
-						return artistsResponse.artists.items.map((a: any) =>
-							SpotifyTreeItem.fromArtist(a),
+					try {
+						return await this.getPagedChildren(
+							this.viewId,
+							undefined,
+							async (after?: string) =>
+								toCursorPage(
+									(
+										await this.spotifyApi.getFollowedArtists(
+											this.getPageSize(),
+											after,
+										)
+									).artists,
+									"after",
+									(a) => {
+										const item = SpotifyTreeItem.fromArtist(a);
+										item.contextValue = "artist.followed";
+										return item;
+									},
+								),
 						);
+					} catch (error) {
+						console.error("Error fetching followed artists:", error);
+						return [this.createEmptyStateItem(element)];
 					}
-					return [this.createEmptyStateItem()];
 				case "xilieRecents":
 					try {
-						const response = await this.spotifyApi.getRecentTracks();
-						const tracks = Array.from(
-							new Map(
-								response.items?.map((item: any) => [
-									item.track.id,
-									item.track,
-								]) || [],
-							).values(),
+						// Tracks played several times are listed once, see appendUnique
+						return await this.getPagedChildren(
+							this.viewId,
+							undefined,
+							async (before?: string) =>
+								toCursorPage(
+									await this.spotifyApi.getRecentTracks(
+										this.getPageSize(),
+										before,
+									),
+									"before",
+									(played) => SpotifyTreeItem.fromTrack(played.track),
+								),
 						);
-						if (tracks.length > 0) {
-							return tracks.map((track: any) =>
-								SpotifyTreeItem.fromTrack(track),
-							);
-						}
-						return [this.createEmptyStateItem()];
 					} catch (error) {
 						console.error("Error fetching recent tracks:", error);
-						return [this.createEmptyStateItem()];
+						return [this.createEmptyStateItem(element)];
+					}
+				case "xilieLikedSongs":
+					try {
+						return await this.getPagedChildren(
+							this.viewId,
+							undefined,
+							async (offset: number = 0) =>
+								toPage(
+									await this.spotifyApi.getSavedTracks(
+										this.getPageSize(),
+										offset,
+									),
+									(saved) => {
+										const item = SpotifyTreeItem.fromTrack(saved.track);
+										// Everything listed here is liked, no need to check. Under
+										// the ID it was saved with, if it was relinked
+										this.likedTracks?.remember([item.listedId], true);
+										return item;
+									},
+								),
+						);
+					} catch (error) {
+						console.error("Error fetching liked songs:", error);
+						return [this.createEmptyStateItem(element)];
+					}
+				case "xilieSavedAlbums":
+					try {
+						return await this.getPagedChildren(
+							this.viewId,
+							undefined,
+							async (offset: number = 0) =>
+								toPage(
+									await this.spotifyApi.getSavedAlbums(
+										this.getPageSize(),
+										offset,
+									),
+									(saved) => SpotifyTreeItem.fromAlbum(saved.album),
+								),
+						);
+					} catch (error) {
+						console.error("Error fetching saved albums:", error);
+						return [this.createEmptyStateItem(element)];
+					}
+				case "xilieQueue":
+					try {
+						const { queue } = await this.spotifyApi.getQueue();
+						if (queue.length > 0) {
+							return queue.map((track, index) => {
+								const item = SpotifyTreeItem.fromTrack(track);
+								// The same track can be queued several times
+								item.id = `queue-${index}-${track.id}`;
+								return item;
+							});
+						}
+						return [this.createEmptyStateItem(element)];
+					} catch (error) {
+						console.error("Error fetching queue:", error);
+						return [this.createEmptyStateItem(element)];
 					}
 				default:
-					return [this.createEmptyStateItem()];
+					return [this.createEmptyStateItem(element)];
 			}
 		} else if (
-			element.collapsibleState === vscode.TreeItemCollapsibleState.Collapsed
+			element.collapsibleState !== vscode.TreeItemCollapsibleState.None
 		) {
 			// This is an expandable item, populate with its children
 			switch (element.spotifyType) {
 				case "playlist":
 					try {
-						const response = await this.spotifyApi.getPlaylistTracks(
+						return await this.getPagedChildren(
 							element.spotifyId,
+							element,
+							async (offset: number = 0) => {
+								const page = await this.spotifyApi.getPlaylistTracks(
+									element.spotifyId,
+									this.getPageSize(),
+									offset,
+								);
+								element.trackCount = page.total;
+								// Tracks removed from Spotify come back as null, but keep their position.
+								// Local files can't be played through the Web API, skip them too
+								return toPage(page, (entry, position) => {
+									if (!entry.track || entry.is_local || entry.track.is_local) {
+										return undefined;
+									}
+									const item = SpotifyTreeItem.fromTrack(entry.track);
+									// Playlists can list the same track several times
+									item.id = `${element.spotifyId}-${position}-${entry.track.id}`;
+									item.playlist = element;
+									item.position = position;
+									return item;
+								});
+							},
 						);
-						const tracks = response.items?.map((item: any) => item.track) || [];
-						if (tracks.length > 0) {
-							return tracks.map((track: any) =>
-								SpotifyTreeItem.fromTrack(track),
-							);
-						}
-						return [this.createEmptyStateItem()];
 					} catch (error) {
 						console.error("Error fetching playlist tracks:", error);
-						return [this.createEmptyStateItem()];
+						return [this.createEmptyStateItem(element)];
 					}
-				case "artist": // Handle artist's top tracks
+				case "artist": // Each group is only loaded when expanded
+					return ARTIST_GROUPS.filter(
+						(group) => group !== "related" || !this.relatedArtistsUnavailable,
+					).map((group) => SpotifyTreeItem.fromArtistGroup(element, group));
+				case "group":
+					return await this.getArtistGroupChildren(element);
+				case "album":
 					try {
-						const response = await this.spotifyApi.getArtistTopTracks(
-							element.spotifyId,
+						// The same album can be listed under several artists
+						return await this.getPagedChildren(
+							element.id!,
+							element,
+							async (offset: number = 0) =>
+								toPage(
+									await this.spotifyApi.getAlbumTracks(
+										element.spotifyId,
+										this.getPageSize(),
+										offset,
+									),
+									(track) => scopeId(element, SpotifyTreeItem.fromTrack(track)),
+								),
 						);
-						const tracks = Array.isArray(response)
-							? response
-							: response?.tracks || [];
-						if (tracks.length > 0) {
-							return tracks.map((track: any) =>
-								SpotifyTreeItem.fromTrack(track),
-							);
-						}
-						return [this.createEmptyStateItem()];
 					} catch (error) {
-						console.error("Error fetching artist top tracks:", error);
-						return [this.createEmptyStateItem()];
+						console.error("Error fetching album tracks:", error);
+						return [this.createEmptyStateItem(element)];
 					}
 				default:
-					return [this.createEmptyStateItem()];
+					return [this.createEmptyStateItem(element)];
 			}
 		}
 
-		return [this.createEmptyStateItem()];
+		return [this.createEmptyStateItem(element)];
+	}
+
+	/**
+	 * Loads the items in one of the groups under an artist.
+	 * @param group The group node, see SpotifyTreeItem.fromArtistGroup
+	 */
+	private async getArtistGroupChildren(
+		group: SpotifyTreeItem,
+	): Promise<SpotifyTreeItem[]> {
+		const artistId = group.spotifyId;
+		try {
+			switch (group.artistGroup) {
+				case "topTracks": {
+					const tracks = await this.spotifyApi.getArtistTopTracks(artistId);
+					return tracks.length > 0
+						? tracks.map((track) =>
+								scopeId(group, SpotifyTreeItem.fromTrack(track)),
+							)
+						: [this.createEmptyStateItem(group)];
+				}
+				case "album":
+				case "single":
+				case "appears_on": {
+					const includeGroups = group.artistGroup;
+					return await this.getPagedChildren(
+						group.id!,
+						group,
+						async (offset: number = 0) =>
+							toPage(
+								await this.spotifyApi.getArtistAlbums(
+									artistId,
+									includeGroups,
+									this.getPageSize(),
+									offset,
+								),
+								(album) => scopeId(group, SpotifyTreeItem.fromAlbum(album)),
+							),
+					);
+				}
+				case "related": {
+					let artists;
+					try {
+						artists = await this.spotifyApi.getRelatedArtists(artistId);
+					} catch (error) {
+						// Spotify doesn't serve related artists to apps created after
+						// November 2024, such as a new app set in xilie.clientId
+						if (
+							error instanceof SpotifyApiError &&
+							error.status === 403 &&
+							!(error instanceof InsufficientScopeError)
+						) {
+							this.relatedArtistsUnavailable = true;
+							return [
+								this.createEmptyStateItem(
+									group,
+									"Related artists aren't available for this Spotify app",
+								),
+							];
+						}
+						throw error;
+					}
+					return artists.length > 0
+						? artists.map((artist) =>
+								scopeId(group, SpotifyTreeItem.fromArtist(artist)),
+							)
+						: [this.createEmptyStateItem(group)];
+				}
+				default:
+					return [this.createEmptyStateItem(group)];
+			}
+		} catch (error) {
+			console.error(`Error fetching artist's ${group.artistGroup}:`, error);
+			return [this.createEmptyStateItem(group)];
+		}
+	}
+
+	/**
+	 * Reloads the children of one item, e.g. a playlist after it was edited.
+	 * @param item The item as shown in the tree.
+	 */
+	refreshItem(item: SpotifyTreeItem): void {
+		const list = this.pagedLists.get(item.spotifyId);
+		if (list) {
+			list.stale = true;
+		}
+		this._onDidChangeTreeData.fire(item);
+	}
+
+	/**
+	 * @param playlistId The ID of the playlist.
+	 * @returns The playlist's node, if it is shown.
+	 */
+	getPlaylistItem(playlistId: string): SpotifyTreeItem | undefined {
+		return this.playlistItems.get(playlistId);
+	}
+
+	/**
+	 * Reloads a playlist's tracks if the playlist is shown.
+	 * @param playlistId The ID of the playlist.
+	 */
+	refreshPlaylist(playlistId: string): void {
+		const item = this.playlistItems.get(playlistId);
+		if (item) {
+			this.refreshItem(item);
+		}
 	}
 
 	refresh(): void {
+		// Keep the loaded pages, but fetch them again
+		this.pagedLists.forEach((list) => {
+			list.stale = true;
+		});
 		this._onDidChangeTreeData.fire();
 	}
 }
@@ -1,8 +1,25 @@
 import * as vscode from "vscode";
 import { SpotifyApi } from "../spotify/api";
-export class SpotifyStatusBar {
+import { SpotifyRepeatState } from "../types/spotify";
+
+/**
+ * Human-readable names for Spotify's repeat states.
+ */
+export const REPEAT_LABELS: Record<SpotifyRepeatState, string> = {
+	off: "Off",
+	context: "Playlist/Album",
+	track: "Track",
+};
+
+export class SpotifyStatusBar implements vscode.Disposable {
 	private spotifyApi: SpotifyApi;
 	public statusBarItem: vscode.StatusBarItem;
+	// Heart next to the playback item, toggles Liked Songs for the current track
+	private likeItem: vscode.StatusBarItem;
+	private profileLabel: string | undefined;
+	private liked: boolean | undefined;
+	private visible = true;
+	private likeButtonEnabled = true;
 
 	constructor(api: SpotifyApi) {
 		// Create a new status bar item at the right side, iwth high priority
@@ -15,6 +32,14 @@ export class SpotifyStatusBar {
 		this.statusBarItem.name = "Xilie Spotify Controller";
 		this.statusBarItem.tooltip = "Xilie Spotify Controller";
 		this.statusBarItem.show(); // Show it by default
+
+		// Right after the playback item
+		this.likeItem = vscode.window.createStatusBarItem(
+			vscode.StatusBarAlignment.Right,
+			99,
+		);
+		this.likeItem.name = "Xilie Like Button";
+		this.likeItem.command = "xilie.toggleLike";
 		this.showUnauthenticated(); // Set initial state
 	}
 
@@ -25,19 +50,24 @@ export class SpotifyStatusBar {
 		this.statusBarItem.text = "$(lock-small) Xilie: Sign in";
 		this.statusBarItem.command = "xilie.authenticate"; // Command to trigger authentication
 		this.statusBarItem.tooltip = "Click to sign in with Spotify";
+		this.setLiked(undefined);
 	}
 
 	/**
 	 * Updates the status bar to show an authenticated state (no playback info yet).
 	 */
 	public async showAuthenticated(): Promise<void> {
-		const user = await this.spotifyApi.getCurrentUserProfile();
+		const user = await this.spotifyApi
+			.getCurrentUserProfile()
+			.catch(() => undefined); // The tooltip falls back to a generic label
 		this.statusBarItem.text = "$(check-all) Xilie: Ready";
 		this.statusBarItem.command = undefined; // No command when authenticated
-		this.statusBarItem.tooltip =
+		this.statusBarItem.tooltip = this.withProfile(
 			user && user.display_name
 				? `Signed in as ${user.display_name}`
-				: "Signed in to Spotify";
+				: "Signed in to Spotify",
+		);
+		this.setLiked(undefined);
 	}
 
 	/**
@@ -45,36 +75,108 @@ export class SpotifyStatusBar {
 	 * @param trackName The name of the current track.
 	 * @param artistName The name of the artist(s).
 	 * @param isPlaying Whether the track is currently playing.
+	 * @param modes Optional: The current shuffle and repeat state, and the
+	 * volume (null when the device doesn't report it).
 	 */
 	public updatePlaybackStatus(
 		trackName: string,
 		artistName: string,
 		isPlaying: boolean,
+		modes?: {
+			shuffle: boolean;
+			repeat: SpotifyRepeatState;
+			volume?: number | null;
+		},
 	): void {
 		const playPauseIcon = isPlaying ? "$(debug-pause)" : "$(play)";
-		this.statusBarItem.text = `${playPauseIcon} ${trackName} - ${artistName}`;
-		this.statusBarItem.tooltip = `Currently Playing: ${trackName} by ${artistName}\nClick to Play/Pause`;
+		const volume = modes?.volume;
+		const volumeText =
+			volume === undefined || volume === null
+				? ""
+				: ` ${volume === 0 ? "$(mute)" : "$(unmute)"} ${volume}%`;
+		this.statusBarItem.text = `${playPauseIcon} ${trackName} - ${artistName}${volumeText}`;
+		const modesLine = modes
+			? `\nShuffle: ${modes.shuffle ? "On" : "Off"} | Repeat: ${REPEAT_LABELS[modes.repeat] ?? modes.repeat}`
+			: "";
+		this.statusBarItem.tooltip = this.withProfile(
+			`Currently Playing: ${trackName} by ${artistName}${modesLine}\nClick to Play/Pause`,
+		);
 		this.statusBarItem.command = "xilie.playPause"; // Command to toggle play/pause
 	}
 
 	/**
-	 * Shows the status bar item.
+	 * Updates the heart for the current track.
+	 * @param liked Whether the track is in Liked Songs, undefined to hide the
+	 * heart (nothing playing, or not known yet).
+	 */
+	public setLiked(liked: boolean | undefined): void {
+		this.liked = liked;
+		if (liked !== undefined) {
+			this.likeItem.text = liked ? "$(heart-filled)" : "$(heart)";
+			this.likeItem.tooltip = liked
+				? "Remove from Liked Songs"
+				: "Save to Liked Songs";
+		}
+		this.updateLikeItemVisibility();
+	}
+
+	/**
+	 * Shows or hides the heart, e.g. when `xilie.showLikeButton` changes.
+	 * @param enabled Whether the heart should be shown while a track is playing.
+	 */
+	public setLikeButtonEnabled(enabled: boolean): void {
+		this.likeButtonEnabled = enabled;
+		this.updateLikeItemVisibility();
+	}
+
+	private updateLikeItemVisibility(): void {
+		if (this.visible && this.likeButtonEnabled && this.liked !== undefined) {
+			this.likeItem.show();
+		} else {
+			this.likeItem.hide();
+		}
+	}
+
+	/**
+	 * Sets the account shown in the tooltip.
+	 * @param label The active account's label, or undefined when signed out.
+	 */
+	public setProfile(label: string | undefined): void {
+		this.profileLabel = label;
+	}
+
+	/**
+	 * Appends the active account to a tooltip.
+	 */
+	private withProfile(tooltip: string): string {
+		return this.profileLabel
+			? `${tooltip}\nAccount: ${this.profileLabel}`
+			: tooltip;
+	}
+
+	/**
+	 * Shows the status bar items.
 	 */
 	public show(): void {
+		this.visible = true;
 		this.statusBarItem.show();
+		this.updateLikeItemVisibility();
 	}
 
 	/**
-	 * Hides the status bar item.
+	 * Hides the status bar items.
 	 */
 	public hide(): void {
+		this.visible = false;
 		this.statusBarItem.hide();
+		this.updateLikeItemVisibility();
 	}
 
 	/**
-	 * Disposes the status bar item when the extension is deactivated.
+	 * Disposes the status bar items when the extension is deactivated.
 	 */
 	public dispose(): void {
 		this.statusBarItem.dispose();
+		this.likeItem.dispose();
 	}
 }
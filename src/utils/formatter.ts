@@ -4,3 +4,33 @@ export function formatJSON(json: any) {
 		.map((line) => "    " + line)
 		.join("\n")}\n`;
 }
+
+/**
+ * Formats a duration as m:ss, or h:mm:ss for an hour or more.
+ * @param ms The duration in milliseconds.
+ */
+export function formatDuration(ms: number) {
+	const totalSeconds = Math.floor(ms / 1000);
+	const hours = Math.floor(totalSeconds / 3600);
+	const minutes = Math.floor((totalSeconds % 3600) / 60);
+	const seconds = String(totalSeconds % 60).padStart(2, "0");
+	return hours > 0
+		? `${hours}:${String(minutes).padStart(2, "0")}:${seconds}`
+		: `${minutes}:${seconds}`;
+}
+
+/**
+ * Parses a position typed by the user: seconds ("90"), m:ss ("1:30") or
+ * h:mm:ss ("1:02:30").
+ * @param value The text to parse.
+ * @returns The position in milliseconds, or undefined if it isn't valid.
+ */
+export function parseDuration(value: string) {
+	const parts = value.trim().split(":");
+	if (parts.length > 3 || parts.some((part) => !/^\d+$/.test(part))) {
+		return undefined;
+	}
+	return (
+		parts.reduce((total, part) => total * 60 + parseInt(part, 10), 0) * 1000
+	);
+}
@@ -0,0 +1,35 @@
+/**
+ * Lowercases text and strips accents, so "Beyoncé" matches "beyonce".
+ */
+function normalize(text: string) {
+	return text
+		.normalize("NFD")
+		.replace(/[\u0300-\u036f]/g, "")
+		.toLowerCase();
+}
+
+/**
+ * Fuzzy matches text against a query typed by the user. Every word of the
+ * query must be found in the text with its letters in order, though not
+ * necessarily next to each other, so "drk sd" matches "Dark Side of the Moon".
+ * Case and accents are ignored.
+ * @param query The query, e.g. from a filter input.
+ * @param text The text to search, e.g. a tree item's label.
+ */
+export function fuzzyMatch(query: string, text: string) {
+	const haystack = normalize(text);
+	return normalize(query)
+		.split(/\s+/)
+		.filter((word) => word.length > 0)
+		.every((word) => {
+			let position = 0;
+			for (const char of word) {
+				position = haystack.indexOf(char, position);
+				if (position === -1) {
+					return false;
+				}
+				position++;
+			}
+			return true;
+		});
+}